@@ -5,7 +5,11 @@ import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import Index from './pages/Index';
+import BoardPage from './pages/BoardPage';
+import Moderation from './pages/Moderation';
+import NotePage from './pages/NotePage';
 import NotFound from './pages/NotFound';
+import Recover from './pages/Recover';
 
 const queryClient = new QueryClient();
 
@@ -17,6 +21,10 @@ const App = () => (
 			<BrowserRouter>
 				<Routes>
 					<Route path="/" element={<Index />} />
+					<Route path="/b/:slug" element={<BoardPage />} />
+					<Route path="/n/:shortId" element={<NotePage />} />
+					<Route path="/moderation" element={<Moderation />} />
+					<Route path="/recover" element={<Recover />} />
 					{/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
 					<Route path="*" element={<NotFound />} />
 				</Routes>
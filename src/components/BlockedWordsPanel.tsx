@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+/** Must match the `word` check on the `blocked_words` table. */
+const BLOCKED_WORD_PATTERN = /^[a-z0-9]+( [a-z0-9]+)*$/;
+
+/** The word list the content filter checks every note against. */
+export function BlockedWordsPanel() {
+	const [words, setWords] = useState<string[]>([]);
+	const [newWord, setNewWord] = useState('');
+	const [isSaving, setIsSaving] = useState(false);
+	const { toast } = useToast();
+
+	const fetchWords = useCallback(async () => {
+		try {
+			const { data, error } = await supabase
+				.from('blocked_words')
+				.select('word')
+				.order('word');
+
+			if (error) throw error;
+			setWords((data || []).map((row) => row.word));
+		} catch (error) {
+			console.error('Error fetching blocked words:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to load the blocked words.',
+				variant: 'destructive',
+			});
+		}
+	}, [toast]);
+
+	useEffect(() => {
+		fetchWords();
+	}, [fetchWords]);
+
+	const handleAdd = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const word = newWord.trim().toLowerCase().replace(/\s+/g, ' ');
+
+		if (!BLOCKED_WORD_PATTERN.test(word)) {
+			toast({
+				title: 'Invalid word',
+				description: 'Use letters and numbers only, with single spaces.',
+				variant: 'destructive',
+			});
+			return;
+		}
+
+		setIsSaving(true);
+		try {
+			const { error } = await supabase.from('blocked_words').insert({ word });
+
+			// Already on the list
+			if (error && error.code !== '23505') throw error;
+
+			setNewWord('');
+			await fetchWords();
+		} catch (error) {
+			console.error('Error adding blocked word:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to add the word. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleRemove = async (word: string) => {
+		setIsSaving(true);
+		try {
+			const { error } = await supabase
+				.from('blocked_words')
+				.delete()
+				.eq('word', word);
+
+			if (error) throw error;
+			setWords((current) => current.filter((w) => w !== word));
+		} catch (error) {
+			console.error('Error removing blocked word:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to remove the word. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="mb-12">
+			<h2 className="text-xl font-semibold mb-2">Blocked words</h2>
+			<p className="text-sm text-gray-400 mb-4">
+				Notes using these words are refused, masked or held, depending on
+				the board.
+			</p>
+			<form onSubmit={handleAdd} className="flex gap-2 mb-4 max-w-md">
+				<Input
+					value={newWord}
+					onChange={(e) => setNewWord(e.target.value)}
+					placeholder="Add a word or phrase"
+					maxLength={40}
+					className="bg-transparent border-white/30"
+				/>
+				<Button
+					type="submit"
+					variant="outline"
+					disabled={isSaving || !newWord.trim()}
+					className="bg-transparent border-white/30 hover:bg-white/10 hover:text-white"
+				>
+					<Plus className="mr-2" size={16} />
+					Add
+				</Button>
+			</form>
+			{words.length === 0 ? (
+				<div className="text-gray-400">No words are blocked.</div>
+			) : (
+				<ul className="flex flex-wrap gap-2">
+					{words.map((word) => (
+						<li
+							key={word}
+							className="inline-flex items-center gap-1 rounded-full bg-white/10 pl-3 pr-1 py-1 text-sm"
+						>
+							{word}
+							<button
+								type="button"
+								onClick={() => handleRemove(word)}
+								disabled={isSaving}
+								className="rounded-full p-1 hover:bg-white/10"
+								title={`Unblock "${word}"`}
+							>
+								<X size={12} />
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
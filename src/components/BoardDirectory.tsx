@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Lock, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CreateBoardModal } from './CreateBoardModal';
+import { SignInErrorBanner } from './SignInErrorBanner';
+import { BOARD_THEMES, fetchBoards, getBoardPath } from '@/lib/board';
+import { useIdentity } from '@/hooks/use-identity';
+import { useToast } from '@/hooks/use-toast';
+
+export function BoardDirectory() {
+	const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+	const { userId: sessionId, isRestoring, signInError, retrySignIn } =
+		useIdentity();
+	const navigate = useNavigate();
+	const { toast } = useToast();
+	const {
+		data: boards,
+		error,
+		isPending,
+	} = useQuery({
+		// Refetched once signed in, which lists private boards the visitor
+		// is a member of
+		queryKey: ['boards', sessionId],
+		queryFn: fetchBoards,
+		enabled: !isRestoring,
+		placeholderData: keepPreviousData,
+	});
+
+	useEffect(() => {
+		if (!error) return;
+		console.error('Error fetching boards:', error);
+		toast({
+			title: 'Error',
+			description: 'Failed to load boards. Please refresh the page.',
+			variant: 'destructive',
+		});
+	}, [error, toast]);
+
+	const handleBoardCreated = (slug: string) => {
+		setIsCreateModalOpen(false);
+		navigate(getBoardPath(slug));
+	};
+
+	return (
+		<div className="min-h-screen bg-geminiDark flex justify-center items-start p-6 sm:p-10">
+			<div className="relative w-full max-w-5xl bg-cork-frame bg-wood-texture bg-gradient-to-br from-cork-frameLight to-cork-frame p-4 rounded-xl shadow-2xl border-4 border-solid border-cork-frameDark">
+				<div className="shadow-[inset_0_4px_12px_rgba(0,0,0,0.6)] rounded-lg">
+					<div className="relative w-full h-full bg-cork-board bg-cork-texture bg-cover bg-center rounded-md min-h-[80vh] overflow-hidden">
+						<div className="relative z-10 bg-black/30 backdrop-blur-sm border-b border-white/20 px-8 py-6">
+							<div className="max-w-7xl mx-auto flex items-center justify-between gap-6 flex-wrap">
+								<h1
+									className="text-3xl font-bold text-gray-100"
+									style={{
+										textShadow: '1px 1px 3px rgba(0,0,0,0.5)',
+									}}
+								>
+									KADA's Bulletin Boards
+								</h1>
+								<Button
+									onClick={() => setIsCreateModalOpen(true)}
+									className="bg-blue-600 hover:bg-blue-700 text-white shadow-md h-12 px-6 rounded-lg"
+								>
+									<Plus className="mr-2" size={18} />
+									New Board
+								</Button>
+							</div>
+						</div>
+
+						<div className="relative z-0 max-w-7xl mx-auto p-8 sm:p-14">
+							{isPending ? (
+								<div className="text-center py-20 text-lg text-slate-700">
+									Loading boards...
+								</div>
+							) : !boards?.length ? (
+								<div className="text-center py-20">
+									<p className="text-slate-700 font-semibold text-xl mb-6">
+										There are no boards yet.
+									</p>
+								</div>
+							) : (
+								<div className="grid gap-8 sm:grid-cols-2 lg:grid-cols-3">
+									{boards.map((board) => (
+										<Link
+											key={board.id}
+											to={getBoardPath(board.slug)}
+											className="block bg-white rounded-lg shadow-lg overflow-hidden transition-transform hover:-translate-y-1 hover:shadow-xl"
+										>
+											<div
+												className="h-16"
+												style={{
+													backgroundColor: (
+														BOARD_THEMES[board.theme] ??
+														BOARD_THEMES.cork
+													).swatch,
+												}}
+											/>
+											<div className="p-5">
+												<h2 className="flex items-center gap-2 text-xl font-bold text-gray-900">
+													{board.is_private && (
+														<Lock size={16} aria-label="Private board" />
+													)}
+													{board.title}
+												</h2>
+												<p className="text-sm text-gray-500 mb-2">
+													{getBoardPath(board.slug)}
+												</p>
+												{board.description && (
+													<p className="text-gray-700 line-clamp-3">
+														{board.description}
+													</p>
+												)}
+											</div>
+										</Link>
+									))}
+								</div>
+							)}
+						</div>
+
+						{signInError && <SignInErrorBanner onRetry={retrySignIn} />}
+
+						<CreateBoardModal
+							isOpen={isCreateModalOpen}
+							onClose={() => setIsCreateModalOpen(false)}
+							onBoardCreated={handleBoardCreated}
+						/>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, RefreshCw, ShieldOff } from 'lucide-react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import {
+	fetchBoardJoinCode,
+	getBoardInviteLink,
+	type Board,
+} from '@/lib/board';
+import { useToast } from '@/hooks/use-toast';
+
+interface BoardInviteModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	board: Board;
+}
+
+/** Lets the creator of a private board share, rotate or revoke its code. */
+export function BoardInviteModal({
+	isOpen,
+	onClose,
+	board,
+}: BoardInviteModalProps) {
+	const [code, setCode] = useState<string | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [removeMembers, setRemoveMembers] = useState(false);
+	const [isUpdating, setIsUpdating] = useState(false);
+	const { toast } = useToast();
+
+	const fetchCode = useCallback(async () => {
+		try {
+			setCode(await fetchBoardJoinCode(board.id));
+		} catch (error) {
+			console.error('Error fetching join code:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to load the join code. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setLoading(false);
+		}
+	}, [board.id, toast]);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		setLoading(true);
+		setRemoveMembers(false);
+		fetchCode();
+	}, [isOpen, fetchCode]);
+
+	const handleCopyLink = async () => {
+		if (!code) return;
+		try {
+			await navigator.clipboard.writeText(getBoardInviteLink(board.slug, code));
+			toast({
+				title: 'Invite link copied',
+				description: 'Anyone with this link can read and post to the board.',
+			});
+		} catch (error) {
+			console.error('Error copying invite link:', error);
+			toast({
+				title: 'Error',
+				description: 'Could not copy the link to your clipboard.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const handleRotate = async () => {
+		setIsUpdating(true);
+		try {
+			const { data: newCode, error } = await supabase.rpc(
+				'rotate_board_code',
+				{ p_board_id: board.id, p_remove_members: removeMembers }
+			);
+
+			if (error) throw error;
+
+			setCode(newCode);
+			toast({
+				title: 'New join code',
+				description: removeMembers
+					? 'The old code no longer works and everyone else has been removed.'
+					: 'The old code and invite links no longer work.',
+			});
+		} catch (error) {
+			console.error('Error rotating join code:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to change the join code. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsUpdating(false);
+		}
+	};
+
+	const handleRevoke = async () => {
+		setIsUpdating(true);
+		try {
+			const { error } = await supabase.rpc('revoke_board_code', {
+				p_board_id: board.id,
+				p_remove_members: removeMembers,
+			});
+
+			if (error) throw error;
+
+			setCode(null);
+			toast({
+				title: 'Joining switched off',
+				description: removeMembers
+					? 'Nobody else can read the board until you share a new code.'
+					: 'Current members keep access; nobody new can join.',
+			});
+		} catch (error) {
+			console.error('Error revoking join code:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to revoke the join code. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsUpdating(false);
+		}
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={onClose}>
+			<DialogContent className="w-full max-w-md p-8 flex flex-col max-h-[90vh] overflow-y-auto">
+				<DialogHeader className="mb-4">
+					<DialogTitle className="text-2xl">Invite to {board.title}</DialogTitle>
+					<DialogDescription>
+						Only people who enter this code can read and post to the board.
+					</DialogDescription>
+				</DialogHeader>
+
+				{loading ? (
+					<div className="text-center py-8 text-gray-500">Loading...</div>
+				) : (
+					<div className="flex flex-col gap-6">
+						{code ? (
+							<div className="text-center">
+								<div className="font-mono text-3xl tracking-[0.3em] font-bold mb-4">
+									{code}
+								</div>
+								<Button
+									variant="outline"
+									onClick={handleCopyLink}
+									className="h-12 px-6 rounded-lg"
+								>
+									<Copy className="mr-2" size={18} />
+									Copy invite link
+								</Button>
+							</div>
+						) : (
+							<p className="text-center text-gray-600">
+								Joining is switched off. Create a new code to invite people
+								again.
+							</p>
+						)}
+
+						<label className="flex items-start gap-3 text-sm text-gray-600">
+							<input
+								type="checkbox"
+								checked={removeMembers}
+								onChange={(e) => setRemoveMembers(e.target.checked)}
+								className="mt-1"
+							/>
+							Also remove everyone who has already joined
+						</label>
+
+						<div className="flex justify-end gap-4">
+							{code && (
+								<Button
+									variant="outline"
+									onClick={handleRevoke}
+									disabled={isUpdating}
+									className="h-12 px-6 rounded-lg"
+								>
+									<ShieldOff className="mr-2" size={18} />
+									Revoke code
+								</Button>
+							)}
+							<Button
+								onClick={handleRotate}
+								disabled={isUpdating}
+								className="h-12 px-6 rounded-lg"
+							>
+								<RefreshCw className="mr-2" size={18} />
+								{code ? 'New code' : 'Create code'}
+							</Button>
+						</div>
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
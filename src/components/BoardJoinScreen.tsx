@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import {
+	JOIN_CODE_LENGTH,
+	getBoardPath,
+	normalizeJoinCode,
+} from '@/lib/board';
+import { ensureSignedIn } from '@/lib/identity';
+import { useToast } from '@/hooks/use-toast';
+
+interface BoardJoinScreenProps {
+	slug: string;
+	initialCode?: string;
+	onJoined: () => void;
+}
+
+/**
+ * Shown instead of a board the visitor can't read. Missing and private
+ * boards look the same here, so the screen doesn't reveal which boards exist.
+ */
+export function BoardJoinScreen({
+	slug,
+	initialCode = '',
+	onJoined,
+}: BoardJoinScreenProps) {
+	const [code, setCode] = useState(() => normalizeJoinCode(initialCode));
+	const [isJoining, setIsJoining] = useState(false);
+	const { toast } = useToast();
+	const isComplete = code.length === JOIN_CODE_LENGTH;
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!isComplete) return;
+
+		setIsJoining(true);
+		try {
+			await ensureSignedIn();
+			const { error } = await supabase.rpc('join_board', {
+				p_slug: slug,
+				p_code: code,
+			});
+
+			if (error) {
+				if (error.message === 'invalid_join_code') {
+					toast({
+						title: 'Code not recognised',
+						description: error.hint,
+						variant: 'destructive',
+					});
+					return;
+				}
+				throw error;
+			}
+
+			onJoined();
+		} catch (error) {
+			console.error('Error joining board:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to join the board. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsJoining(false);
+		}
+	};
+
+	return (
+		<div className="min-h-screen bg-geminiDark flex items-center justify-center p-6">
+			<div className="w-full max-w-md bg-white rounded-xl shadow-2xl p-8">
+				<h1 className="flex items-center gap-2 text-2xl font-bold mb-2">
+					<Lock size={22} />
+					Join {getBoardPath(slug)}
+				</h1>
+				<p className="text-gray-600 mb-6">
+					This board is private or doesn't exist. If you were invited, enter
+					the join code you were given.
+				</p>
+				<form onSubmit={handleSubmit} className="flex flex-col gap-4">
+					<div>
+						<Label htmlFor="join-code" className="mb-3 block">
+							Join code
+						</Label>
+						<Input
+							id="join-code"
+							placeholder="XXXXXXXX"
+							value={code}
+							onChange={(e) => setCode(normalizeJoinCode(e.target.value))}
+							autoComplete="off"
+							spellCheck={false}
+							maxLength={JOIN_CODE_LENGTH}
+							className="h-12 rounded-lg font-mono tracking-widest"
+						/>
+					</div>
+					<p className="text-sm text-gray-500">
+						Your notes on the board stay anonymous. Joining only lets this
+						browser read and post to it.
+					</p>
+					<Button
+						type="submit"
+						disabled={isJoining || !isComplete}
+						className="h-12 rounded-lg"
+					>
+						{isJoining ? 'Joining...' : 'Join board'}
+					</Button>
+				</form>
+				<Link
+					to="/"
+					className="block text-center text-sm text-gray-500 hover:underline mt-6"
+				>
+					See all boards
+				</Link>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Move } from 'lucide-react';
+import { SecretNote } from './SecretNote';
+import {
+	CORKBOARD_HEIGHT,
+	CORKBOARD_NOTE_WIDTH,
+	CORKBOARD_WIDTH,
+	clampToCorkboard,
+	getDefaultPosition,
+	type NotePosition,
+} from '@/lib/corkboard';
+import type { Note } from '@/lib/notes';
+
+interface CorkboardCanvasProps {
+	notes: Note[];
+	positions: Map<string, NotePosition>;
+	onMove: (position: NotePosition) => void;
+	onDrag: (noteId: string, x: number, y: number) => void;
+	onReply: (noteId: string) => void;
+	onDelete: () => void;
+	onEdit: (note: Note) => void;
+	onViewReplies: (noteId: string) => void;
+}
+
+interface View {
+	scale: number;
+	x: number;
+	y: number;
+}
+
+interface Drag {
+	noteId: string;
+	pointerId: number;
+	startX: number;
+	startY: number;
+	origin: NotePosition;
+}
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 2;
+const WHEEL_ZOOM_STEP = 0.1;
+
+const clampScale = (scale: number) =>
+	Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export function CorkboardCanvas({
+	notes,
+	positions,
+	onMove,
+	onDrag,
+	onReply,
+	onDelete,
+	onEdit,
+	onViewReplies,
+}: CorkboardCanvasProps) {
+	const [viewport, setViewport] = useState<HTMLDivElement | null>(null);
+	const [view, setView] = useState<View>({ scale: 0.5, x: 0, y: 0 });
+	const [isPanning, setIsPanning] = useState(false);
+	// Local position of the note being dragged, before it is saved
+	const [dragPosition, setDragPosition] = useState<NotePosition | null>(null);
+	const viewRef = useRef(view);
+	viewRef.current = view;
+	const panStart = useRef<{ pointerId: number; x: number; y: number; view: View } | null>(null);
+	const drag = useRef<Drag | null>(null);
+
+	// Start zoomed to fit the canvas width
+	useEffect(() => {
+		if (!viewport) return;
+		setView({
+			scale: clampScale(viewport.clientWidth / CORKBOARD_WIDTH),
+			x: 0,
+			y: 0,
+		});
+	}, [viewport]);
+
+	// React registers wheel listeners as passive, so preventDefault needs a native one
+	useEffect(() => {
+		if (!viewport) return;
+
+		const handleWheel = (event: WheelEvent) => {
+			event.preventDefault();
+			const rect = viewport.getBoundingClientRect();
+			const anchorX = event.clientX - rect.left;
+			const anchorY = event.clientY - rect.top;
+			const current = viewRef.current;
+			const factor =
+				event.deltaY < 0 ? 1 + WHEEL_ZOOM_STEP : 1 / (1 + WHEEL_ZOOM_STEP);
+			const scale = clampScale(current.scale * factor);
+			const ratio = scale / current.scale;
+			setView({
+				scale,
+				x: anchorX - (anchorX - current.x) * ratio,
+				y: anchorY - (anchorY - current.y) * ratio,
+			});
+		};
+
+		viewport.addEventListener('wheel', handleWheel, { passive: false });
+		return () => viewport.removeEventListener('wheel', handleWheel);
+	}, [viewport]);
+
+	const getPosition = useCallback(
+		(noteId: string) =>
+			dragPosition?.note_id === noteId
+				? dragPosition
+				: positions.get(noteId) ?? getDefaultPosition(noteId),
+		[dragPosition, positions]
+	);
+
+	const handleCanvasPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+		// Panning starts on the cork itself, not on notes
+		if (event.target !== event.currentTarget) return;
+		event.currentTarget.setPointerCapture(event.pointerId);
+		panStart.current = {
+			pointerId: event.pointerId,
+			x: event.clientX,
+			y: event.clientY,
+			view: viewRef.current,
+		};
+		setIsPanning(true);
+	};
+
+	const handleCanvasPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+		const start = panStart.current;
+		if (!start || start.pointerId !== event.pointerId) return;
+		setView({
+			...start.view,
+			x: start.view.x + event.clientX - start.x,
+			y: start.view.y + event.clientY - start.y,
+		});
+	};
+
+	const handleCanvasPointerUp = () => {
+		panStart.current = null;
+		setIsPanning(false);
+	};
+
+	const handleDragStart = (
+		event: React.PointerEvent<HTMLButtonElement>,
+		noteId: string
+	) => {
+		event.stopPropagation();
+		event.currentTarget.setPointerCapture(event.pointerId);
+		drag.current = {
+			noteId,
+			pointerId: event.pointerId,
+			startX: event.clientX,
+			startY: event.clientY,
+			origin: getPosition(noteId),
+		};
+		setDragPosition(getPosition(noteId));
+	};
+
+	const handleDragMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+		const current = drag.current;
+		if (!current || current.pointerId !== event.pointerId) return;
+		// Screen pixels become canvas pixels at the current zoom
+		const { scale } = viewRef.current;
+		const { x, y } = clampToCorkboard(
+			current.origin.x + (event.clientX - current.startX) / scale,
+			current.origin.y + (event.clientY - current.startY) / scale
+		);
+		setDragPosition({ ...current.origin, x, y });
+		onDrag(current.noteId, x, y);
+	};
+
+	const handleDragEnd = () => {
+		const current = drag.current;
+		drag.current = null;
+		if (current && dragPosition) onMove(dragPosition);
+		setDragPosition(null);
+	};
+
+	return (
+		<div
+			ref={setViewport}
+			className="relative h-[75vh] overflow-hidden rounded-md"
+			style={{
+				cursor: isPanning ? 'grabbing' : 'grab',
+				touchAction: 'none',
+			}}
+			onPointerDown={handleCanvasPointerDown}
+			onPointerMove={handleCanvasPointerMove}
+			onPointerUp={handleCanvasPointerUp}
+			onPointerCancel={handleCanvasPointerUp}
+		>
+			<div
+				className="absolute top-0 left-0 border-2 border-dashed border-black/10"
+				style={{
+					width: CORKBOARD_WIDTH,
+					height: CORKBOARD_HEIGHT,
+					transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+					transformOrigin: '0 0',
+				}}
+				onPointerDown={handleCanvasPointerDown}
+			>
+				{notes.map((note) => {
+					const position = getPosition(note.id);
+					const isDragging = dragPosition?.note_id === note.id;
+
+					return (
+						<div
+							key={note.id}
+							className="absolute"
+							style={{
+								left: position.x,
+								top: position.y,
+								width: CORKBOARD_NOTE_WIDTH,
+								// Keep the note being dragged above everything else
+								zIndex: isDragging ? 100000 : position.z_index,
+								cursor: 'default',
+							}}
+						>
+							{note.is_own && (
+								<button
+									type="button"
+									className="absolute -top-3 -left-3 z-10 rounded-full bg-white/90 p-1.5 shadow-md text-gray-700 hover:bg-white"
+									style={{
+										cursor: isDragging ? 'grabbing' : 'grab',
+										touchAction: 'none',
+									}}
+									title="Drag to move your note"
+									onPointerDown={(event) => handleDragStart(event, note.id)}
+									onPointerMove={handleDragMove}
+									onPointerUp={handleDragEnd}
+									onPointerCancel={handleDragEnd}
+								>
+									<Move size={14} />
+								</button>
+							)}
+							<SecretNote
+								note={note}
+								postNumber={notes.length - notes.indexOf(note)}
+								onReply={onReply}
+								onDelete={onDelete}
+								onEdit={onEdit}
+								onViewReplies={onViewReplies}
+								rotation={position.rotation}
+							/>
+						</div>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
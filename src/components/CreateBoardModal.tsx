@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import {
+	BOARD_FILTER_ACTIONS,
+	BOARD_MESSAGE_LENGTHS,
+	BOARD_SLUG_PATTERN,
+	BOARD_THEMES,
+	DEFAULT_MAX_MESSAGE_LENGTH,
+	getBoardPath,
+	toBoardSlug,
+	type BoardFilterAction,
+	type BoardThemeName,
+} from '@/lib/board';
+import { ensureSignedIn } from '@/lib/identity';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface CreateBoardModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onBoardCreated: (slug: string) => void;
+}
+
+const MAX_DESCRIPTION_LENGTH = 280;
+
+export function CreateBoardModal({
+	isOpen,
+	onClose,
+	onBoardCreated,
+}: CreateBoardModalProps) {
+	const [title, setTitle] = useState('');
+	// Follows the title until the slug is edited by hand
+	const [customSlug, setCustomSlug] = useState<string | null>(null);
+	const [description, setDescription] = useState('');
+	const [theme, setTheme] = useState<BoardThemeName>('cork');
+	const [isPrivate, setIsPrivate] = useState(false);
+	const [maxMessageLength, setMaxMessageLength] = useState(
+		DEFAULT_MAX_MESSAGE_LENGTH
+	);
+	const [filterAction, setFilterAction] =
+		useState<BoardFilterAction>('reject');
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const { toast } = useToast();
+	const slug = customSlug ?? toBoardSlug(title);
+
+	const resetForm = () => {
+		setTitle('');
+		setCustomSlug(null);
+		setDescription('');
+		setTheme('cork');
+		setIsPrivate(false);
+		setMaxMessageLength(DEFAULT_MAX_MESSAGE_LENGTH);
+		setFilterAction('reject');
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!title.trim()) {
+			toast({
+				title: 'Error',
+				description: 'Please give the board a title.',
+				variant: 'destructive',
+			});
+			return;
+		}
+
+		if (slug.length < 2 || !BOARD_SLUG_PATTERN.test(slug)) {
+			toast({
+				title: 'Invalid address',
+				description:
+					'Use at least 2 lowercase letters or numbers, separated by single dashes.',
+				variant: 'destructive',
+			});
+			return;
+		}
+
+		setIsSubmitting(true);
+		try {
+			await ensureSignedIn();
+			const { error } = await supabase.from('boards').insert({
+				slug,
+				title: title.trim(),
+				description: description.trim() || null,
+				theme,
+				is_private: isPrivate,
+				max_message_length: maxMessageLength,
+				filter_action: filterAction,
+			});
+
+			if (error) {
+				// Unique violation on the slug
+				if (error.code === '23505') {
+					toast({
+						title: 'Address taken',
+						description: `There is already a board at ${getBoardPath(slug)}.`,
+						variant: 'destructive',
+					});
+					return;
+				}
+				throw error;
+			}
+
+			toast({
+				title: 'Board created!',
+				description: isPrivate
+					? 'Use the key button on the board to invite people.'
+					: 'Share its link so others can post to it.',
+			});
+
+			resetForm();
+			onBoardCreated(slug);
+		} catch (error) {
+			console.error('Error creating board:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to create the board. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const handleClose = () => {
+		resetForm();
+		onClose();
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={handleClose}>
+			<DialogContent className="w-full max-w-md sm:max-w-lg p-8 flex flex-col max-h-[90vh] overflow-y-auto">
+				<DialogHeader className="mb-6">
+					<DialogTitle className="text-2xl">Create Board</DialogTitle>
+					<DialogDescription>
+						A separate board for a class, event or topic.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="flex flex-col gap-6">
+					<div>
+						<Label htmlFor="board-title" className="mb-3 block">
+							Title
+						</Label>
+						<Input
+							id="board-title"
+							placeholder="Class of 2025"
+							value={title}
+							onChange={(e) => setTitle(e.target.value)}
+							maxLength={80}
+							className="h-12 rounded-lg"
+							required
+						/>
+					</div>
+
+					<div>
+						<Label htmlFor="board-slug" className="mb-3 block">
+							Address
+						</Label>
+						<div className="flex items-center gap-2">
+							<span className="text-muted-foreground">/b/</span>
+							<Input
+								id="board-slug"
+								placeholder="class-of-2025"
+								value={slug}
+								onChange={(e) =>
+									setCustomSlug(e.target.value.toLowerCase())
+								}
+								maxLength={48}
+								className="h-12 rounded-lg"
+								required
+							/>
+						</div>
+					</div>
+
+					<div>
+						<Label htmlFor="board-description" className="mb-3 block">
+							Description (optional)
+						</Label>
+						<Textarea
+							id="board-description"
+							placeholder="What is this board for?"
+							value={description}
+							onChange={(e) => setDescription(e.target.value)}
+							maxLength={MAX_DESCRIPTION_LENGTH}
+							className="min-h-[100px] resize-none rounded-lg"
+						/>
+						<div className="text-xs text-muted-foreground mt-3">
+							{description.length}/{MAX_DESCRIPTION_LENGTH} characters
+						</div>
+					</div>
+
+					<div>
+						<Label className="mb-3 block">Theme</Label>
+						<div className="grid grid-cols-5 gap-3 mt-3">
+							{(Object.keys(BOARD_THEMES) as BoardThemeName[]).map((name) => (
+								<button
+									key={name}
+									type="button"
+									onClick={() => setTheme(name)}
+									className={cn(
+										'h-12 rounded-lg border-2 transition-all',
+										theme === name
+											? 'border-primary ring-2 ring-primary/20'
+											: 'border-border hover:border-primary/50'
+									)}
+									style={{ backgroundColor: BOARD_THEMES[name].swatch }}
+									title={BOARD_THEMES[name].label}
+								/>
+							))}
+						</div>
+					</div>
+
+					<div>
+						<Label className="mb-3 block">Note length</Label>
+						<div className="flex flex-wrap gap-2">
+							{BOARD_MESSAGE_LENGTHS.map((length) => (
+								<Button
+									key={length}
+									type="button"
+									variant="outline"
+									size="sm"
+									onClick={() => setMaxMessageLength(length)}
+									className={cn(
+										'rounded-full',
+										maxMessageLength === length &&
+											'border-primary ring-2 ring-primary/20'
+									)}
+								>
+									{length} characters
+								</Button>
+							))}
+						</div>
+					</div>
+
+					<div>
+						<Label className="mb-3 block">
+							Notes with links, blocked words or spam
+						</Label>
+						<div className="flex flex-wrap gap-2">
+							{(Object.keys(BOARD_FILTER_ACTIONS) as BoardFilterAction[]).map(
+								(action) => (
+									<Button
+										key={action}
+										type="button"
+										variant="outline"
+										size="sm"
+										onClick={() => setFilterAction(action)}
+										className={cn(
+											'rounded-full',
+											filterAction === action &&
+												'border-primary ring-2 ring-primary/20'
+										)}
+									>
+										{BOARD_FILTER_ACTIONS[action]}
+									</Button>
+								)
+							)}
+						</div>
+					</div>
+
+					<label className="flex items-start gap-3 text-sm">
+						<input
+							type="checkbox"
+							checked={isPrivate}
+							onChange={(e) => setIsPrivate(e.target.checked)}
+							className="mt-1"
+						/>
+						<span>
+							<span className="font-medium">Private board</span>
+							<span className="block text-muted-foreground">
+								Only people with its join code can read and post.
+							</span>
+						</span>
+					</label>
+
+					<div className="flex justify-end gap-4 pt-8">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={handleClose}
+							disabled={isSubmitting}
+							className="h-12 px-6 rounded-lg"
+						>
+							Cancel
+						</Button>
+						<Button
+							type="submit"
+							disabled={isSubmitting}
+							className="h-12 px-6 rounded-lg"
+						>
+							{isSubmitting ? 'Creating...' : 'Create Board'}
+						</Button>
+					</div>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,7 +11,35 @@ import {
 	DialogDescription,
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { NoteMarkdown } from './NoteMarkdown';
 import { supabase } from '@/integrations/supabase/client';
+import {
+	MAX_NOTE_ATTACHMENTS,
+	MAX_SCHEDULE_AHEAD_MS,
+	MAX_SEAL_MS,
+	MIN_NOTE_LIFETIME_MS,
+	NOTE_EXPIRY_OPTIONS,
+	NotePostError,
+	RateLimitError,
+	formatTimeLeft,
+	postNote,
+	type Note,
+	type NotePostErrorCode,
+	type PostedNote,
+} from '@/lib/notes';
+import {
+	ACCEPTED_IMAGE_TYPES,
+	ImageUploadError,
+	prepareImageForUpload,
+	uploadNoteImage,
+	type ImageUploadErrorCode,
+	type PreparedImage,
+	type UploadedImage,
+} from '@/lib/images';
+import { DEFAULT_MAX_MESSAGE_LENGTH } from '@/lib/board';
+import { ensureSignedIn } from '@/lib/identity';
+import { MARKDOWN_HINT } from '@/lib/markdown';
+import { useNoteChallenge } from '@/hooks/use-note-challenge';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
@@ -20,7 +48,10 @@ interface CreateNoteModalProps {
 	onClose: () => void;
 	onNoteCreated: () => void;
 	replyingTo?: string;
-	sessionId: string;
+	editingNote?: Note;
+	/** Board new notes are posted to; replies always join their parent's. */
+	boardId?: string;
+	maxMessageLength?: number;
 }
 
 const noteColors = [
@@ -32,20 +63,195 @@ const noteColors = [
 	{ name: 'Purple', value: '#E6B3FF', class: 'bg-note-purple' },
 ];
 
+/** Index into NOTE_EXPIRY_OPTIONS, or one of the two extra choices. */
+type ExpiryChoice = 'never' | 'custom' | number;
+
+// <input type="datetime-local"> wants local time without a zone
+const toDateTimeLocal = (date: Date) => {
+	const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+	return local.toISOString().slice(0, 16);
+};
+
+const IMAGE_UPLOAD_ERRORS: Record<ImageUploadErrorCode, string> = {
+	file_too_large: 'That image is too large, even after resizing.',
+	unsupported_type: 'Only PNG, JPEG, WebP and GIF images can be posted.',
+	quota_exceeded:
+		"You've uploaded a lot of images recently. Try again later.",
+	banned: 'This session is not allowed to upload images.',
+	upload_failed: 'Failed to upload the image. Please try again.',
+};
+
+const NOTE_POST_ERROR_TITLES: Record<NotePostErrorCode, string> = {
+	invalid_image_upload: 'Image not attached',
+	too_many_attachments: 'Image not attached',
+	message_too_long: 'Note too long',
+	note_rejected: 'Note not posted',
+	invalid_schedule: "Can't schedule that",
+	rate_limited: 'Slow down',
+	challenge_failed: 'Note not posted',
+};
+
 export function CreateNoteModal({
 	isOpen,
 	onClose,
 	onNoteCreated,
 	replyingTo,
-	sessionId,
+	editingNote,
+	boardId,
+	maxMessageLength = DEFAULT_MAX_MESSAGE_LENGTH,
 }: CreateNoteModalProps) {
 	const [recipient, setRecipient] = useState('');
 	const [from_sender, setFromSender] = useState('');
 	const [message, setMessage] = useState('');
 	const [selectedColor, setSelectedColor] = useState(noteColors[0].value);
-	const [imageFile, setImageFile] = useState<File | null>(null);
+	const [imageFiles, setImageFiles] = useState<File[]>([]);
+	const [publishLater, setPublishLater] = useState(false);
+	const [publishAt, setPublishAt] = useState('');
+	const [expiry, setExpiry] = useState<ExpiryChoice>('never');
+	const [customExpiresAt, setCustomExpiresAt] = useState('');
+	const [contentWarning, setContentWarning] = useState('');
+	const [hasSensitiveImage, setHasSensitiveImage] = useState(false);
+	const [isSealed, setIsSealed] = useState(false);
+	const [sealedUntil, setSealedUntil] = useState('');
 	const [isSubmitting, setIsSubmitting] = useState(false);
+	// When a rate limit lets this session post again
+	const [retryAt, setRetryAt] = useState<number | null>(null);
+	const [now, setNow] = useState(Date.now);
 	const { toast } = useToast();
+	const { getProof, renew: renewProof } = useNoteChallenge(
+		isOpen && !editingNote
+	);
+	const cooldownMs = retryAt ? retryAt - now : 0;
+	const isCoolingDown = !editingNote && cooldownMs > 0;
+	// Replies go up with the thread they answer
+	const canSchedule = !editingNote && !replyingTo;
+
+	useEffect(() => {
+		if (!retryAt) return;
+		const interval = window.setInterval(() => {
+			const current = Date.now();
+			setNow(current);
+			if (current >= retryAt) setRetryAt(null);
+		}, 1000);
+		return () => window.clearInterval(interval);
+	}, [retryAt]);
+
+	useEffect(() => {
+		if (!isOpen || !editingNote) return;
+		setRecipient(editingNote.to_recipient || '');
+		setFromSender(editingNote.from_sender || '');
+		setMessage(editingNote.message);
+		setSelectedColor(editingNote.color);
+		setImageFiles([]);
+	}, [isOpen, editingNote]);
+
+	const resetForm = () => {
+		setRecipient('');
+		setFromSender('');
+		setMessage('');
+		setSelectedColor(noteColors[0].value);
+		setImageFiles([]);
+		setPublishLater(false);
+		setPublishAt('');
+		setExpiry('never');
+		setCustomExpiresAt('');
+		setContentWarning('');
+		setHasSensitiveImage(false);
+		setIsSealed(false);
+		setSealedUntil('');
+	};
+
+	// When the note goes up, opens and comes down; the server checks the limits
+	const getSchedule = () => {
+		if (publishLater && canSchedule && !publishAt) {
+			toast({
+				title: 'Pick a time',
+				description: 'Choose when the note should go up, or post it now.',
+				variant: 'destructive',
+			});
+			return null;
+		}
+		if (isSealed && canSchedule && !sealedUntil) {
+			toast({
+				title: 'Pick a time',
+				description: 'Choose when the sealed note should open.',
+				variant: 'destructive',
+			});
+			return null;
+		}
+		if (expiry === 'custom' && !customExpiresAt) {
+			toast({
+				title: 'Pick a time',
+				description: 'Choose when the note should expire.',
+				variant: 'destructive',
+			});
+			return null;
+		}
+
+		const publishAtDate =
+			publishLater && canSchedule ? new Date(publishAt) : null;
+		const sealedUntilDate =
+			isSealed && canSchedule ? new Date(sealedUntil) : null;
+		// Preset lifetimes count from when the note can be read
+		const startsAt =
+			sealedUntilDate?.getTime() ?? publishAtDate?.getTime() ?? Date.now();
+		const expiresAtDate =
+			expiry === 'never'
+				? null
+				: expiry === 'custom'
+					? new Date(customExpiresAt)
+					: new Date(startsAt + NOTE_EXPIRY_OPTIONS[expiry].ms);
+
+		return {
+			publishAt: publishAtDate,
+			sealedUntil: sealedUntilDate,
+			expiresAt: expiresAtDate,
+		};
+	};
+
+	const handleEdit = async () => {
+		const { error } = await supabase.rpc('edit_own_note', {
+			p_note_id: editingNote.id,
+			p_message: message.trim(),
+			p_to_recipient: recipient.trim(),
+			p_from_sender: from_sender.trim(),
+			p_color: selectedColor,
+		});
+
+		if (error) {
+			if (error.message === 'message_too_long') {
+				toast({
+					title: 'Note too long',
+					description: error.hint,
+					variant: 'destructive',
+				});
+				return false;
+			}
+			if (error.message === 'note_rejected') {
+				toast({
+					title: 'Changes not saved',
+					description: error.hint,
+					variant: 'destructive',
+				});
+				return false;
+			}
+			if (error.message === 'edit_window_expired') {
+				toast({
+					title: 'Too late to edit',
+					description: error.hint,
+					variant: 'destructive',
+				});
+				return false;
+			}
+			throw error;
+		}
+
+		toast({
+			title: 'Note updated',
+			description: 'Your changes have been saved.',
+		});
+		return true;
+	};
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
@@ -61,62 +267,132 @@ export function CreateNoteModal({
 
 		setIsSubmitting(true);
 		try {
-			let imageUrl: string | null = null;
+			await ensureSignedIn();
+
+			if (editingNote) {
+				if (await handleEdit()) {
+					resetForm();
+					onNoteCreated();
+					onClose();
+				}
+				return;
+			}
 
-			if (imageFile) {
-				const fileExt = imageFile.name.split('.').pop();
-				const fileName = `${sessionId}-${Date.now()}.${fileExt}`;
-				const filePath = `public/${fileName}`;
+			const schedule = getSchedule();
+			if (!schedule) return;
 
-				const { error: uploadError } = await supabase.storage
-					.from('note-images')
-					.upload(filePath, imageFile);
+			const imageUrls: string[] = [];
 
-				if (uploadError) {
-					throw uploadError;
+			// One at a time keeps memory down when decoding large phone photos
+			for (const imageFile of imageFiles) {
+				let preparedImage: PreparedImage;
+				try {
+					preparedImage = await prepareImageForUpload(imageFile);
+				} catch (error) {
+					console.error('Error processing image:', error);
+					toast({
+						title: 'Unsupported image',
+						description: `${imageFile.name} could not be read. Try a PNG, JPEG, WebP or GIF.`,
+						variant: 'destructive',
+					});
+					return;
 				}
 
-				const {
-					data: { publicUrl },
-				} = supabase.storage.from('note-images').getPublicUrl(filePath);
+				let uploadedImage: UploadedImage;
+				try {
+					uploadedImage = await uploadNoteImage(preparedImage);
+				} catch (error) {
+					if (!(error instanceof ImageUploadError)) throw error;
+					toast({
+						title: 'Image not uploaded',
+						description: IMAGE_UPLOAD_ERRORS[error.code],
+						variant: 'destructive',
+					});
+					return;
+				}
 
-				imageUrl = publicUrl;
+				imageUrls.push(uploadedImage.image_url);
 			}
 
-			const noteData = {
-				message: message.trim(),
-				color: selectedColor,
-				session_id: sessionId,
-				...(recipient.trim() && { to_recipient: recipient.trim() }),
-				...(from_sender.trim() && { from_sender: from_sender.trim() }),
-				...(replyingTo && { replying_to_id: replyingTo }),
-				...(imageUrl && { image_url: imageUrl }),
-			};
-
-			const { error } = await (supabase as any)
-				.from('notes')
-				.insert(noteData);
+			const proof = await getProof();
 
-			if (error) throw error;
+			let created: PostedNote;
+			try {
+				created = await postNote({
+					p_message: message.trim(),
+					p_color: selectedColor,
+					...(recipient.trim() && { p_to_recipient: recipient.trim() }),
+					...(from_sender.trim() && { p_from_sender: from_sender.trim() }),
+					...(replyingTo && { p_replying_to_id: replyingTo }),
+					...(boardId && { p_board_id: boardId }),
+					...(schedule.publishAt && {
+						p_publish_at: schedule.publishAt.toISOString(),
+					}),
+					...(contentWarning.trim() && {
+						p_content_warning: contentWarning.trim(),
+					}),
+					...(hasSensitiveImage &&
+						imageUrls.length > 0 && { p_has_sensitive_image: true }),
+					...(schedule.sealedUntil && {
+						p_sealed_until: schedule.sealedUntil.toISOString(),
+					}),
+					...(schedule.expiresAt && {
+						p_expires_at: schedule.expiresAt.toISOString(),
+					}),
+					p_image_urls: imageUrls,
+					p_challenge_id: proof.challengeId,
+					p_nonce: proof.nonce,
+				});
+			} catch (error) {
+				if (!(error instanceof NotePostError)) throw error;
+				// Any other refusal rolls back and leaves the challenge unspent
+				if (error.code === 'challenge_failed') renewProof();
+				if (error instanceof RateLimitError) {
+					setNow(Date.now());
+					setRetryAt(Date.now() + error.retryAfter * 1000);
+				}
+				toast({
+					title: NOTE_POST_ERROR_TITLES[error.code],
+					description: error.hint,
+					variant: 'destructive',
+				});
+				return;
+			}
 
-			toast({
-				title: 'Note created!',
-				description: 'Your secret note has been posted to the board.',
-			});
+			const heldReason = created.held_reason;
+			if (heldReason) {
+				toast({
+					title: 'Held for review',
+					description: `${heldReason} A moderator will check your note before it goes up.`,
+				});
+			} else {
+				toast({
+					title: schedule.publishAt
+						? 'Note scheduled!'
+						: schedule.sealedUntil
+							? 'Note sealed!'
+							: 'Note created!',
+					description: schedule.publishAt
+						? `It goes up ${schedule.publishAt.toLocaleString()}. Until then only you can see it.`
+						: schedule.sealedUntil
+							? `It opens ${schedule.sealedUntil.toLocaleString()}. Until then everyone sees an envelope with the To: line.`
+							: 'Your secret note has been posted to the board.',
+				});
+			}
 
-			// Reset form
-			setRecipient('');
-			setFromSender('');
-			setMessage('');
-			setSelectedColor(noteColors[0].value);
-			setImageFile(null);
+			resetForm();
 			onNoteCreated();
 			onClose();
 		} catch (error) {
-			console.error('Error creating note:', error);
+			console.error(
+				editingNote ? 'Error editing note:' : 'Error creating note:',
+				error
+			);
 			toast({
 				title: 'Error',
-				description: 'Failed to create note. Please try again.',
+				description: editingNote
+					? 'Failed to save your changes. Please try again.'
+					: 'Failed to create note. Please try again.',
 				variant: 'destructive',
 			});
 		} finally {
@@ -125,11 +401,7 @@ export function CreateNoteModal({
 	};
 
 	const handleClose = () => {
-		setRecipient('');
-		setFromSender('');
-		setMessage('');
-		setSelectedColor(noteColors[0].value);
-		setImageFile(null);
+		resetForm();
 		onClose();
 	};
 
@@ -138,10 +410,16 @@ export function CreateNoteModal({
 			<DialogContent className="w-full max-w-md sm:max-w-lg p-8 flex flex-col max-h-[90vh] overflow-y-auto">
 				<DialogHeader className="mb-6">
 					<DialogTitle className="text-2xl">
-						{replyingTo ? `Reply to Note` : 'Create Secret Note'}
+						{editingNote
+							? 'Edit Note'
+							: replyingTo
+								? `Reply to Note`
+								: 'Create Secret Note'}
 					</DialogTitle>
 					<DialogDescription>
-						Create a new secret note to share with the world.
+						{editingNote
+							? 'Notes can be edited for 10 minutes after posting.'
+							: 'Create a new secret note to share with the world.'}
 					</DialogDescription>
 				</DialogHeader>
 
@@ -183,31 +461,228 @@ export function CreateNoteModal({
 							placeholder="Share your secret thoughts..."
 							value={message}
 							onChange={(e) => setMessage(e.target.value)}
-														maxLength={150}
+							maxLength={maxMessageLength}
 							className="min-h-[160px] resize-none rounded-lg"
 							required
 						/>
-						<div className="text-xs text-muted-foreground mt-3">
-							{message.length}/150 characters
+						<div className="flex justify-between gap-4 text-xs text-muted-foreground mt-3">
+							<span className="font-mono">{MARKDOWN_HINT}</span>
+							<span className="shrink-0">
+								{message.length}/{maxMessageLength} characters
+							</span>
 						</div>
+						{message.trim() && (
+							<div
+								className={cn(
+									'mt-3 rounded-lg p-4 shadow-inner break-words',
+									noteColors.find((color) => color.value === selectedColor)
+										?.class
+								)}
+							>
+								<div className="text-xs text-gray-600 mb-2">Preview</div>
+								<p className="text-gray-800 text-sm leading-relaxed font-handwriting">
+									<NoteMarkdown text={message} />
+								</p>
+							</div>
+						)}
 					</div>
 
-					<div>
-						<Label htmlFor="image" className="mb-3 block">
-							Image (optional)
-						</Label>
-						<Input
-							id="image"
-							type="file"
-							accept="image/png, image/jpeg, image/gif"
-							onChange={(e) =>
-								setImageFile(
-									e.target.files ? e.target.files[0] : null
-								)
-							}
-							className="file:mr-4 file:py-3 file:px-5 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
-						/>
-					</div>
+					{!editingNote && (
+						<div>
+							<Label htmlFor="content_warning" className="mb-3 block">
+								Content warning (optional)
+							</Label>
+							<Input
+								id="content_warning"
+								placeholder="Heartbreak, exam spoilers..."
+								value={contentWarning}
+								onChange={(e) => setContentWarning(e.target.value)}
+								maxLength={60}
+								className="h-12 rounded-lg"
+							/>
+							<div className="text-xs text-muted-foreground mt-3">
+								The note is blurred behind this label until someone taps it.
+							</div>
+						</div>
+					)}
+
+					{!editingNote && (
+						<div>
+							<Label htmlFor="image" className="mb-3 block">
+								Images (optional, up to {MAX_NOTE_ATTACHMENTS})
+							</Label>
+							<Input
+								id="image"
+								type="file"
+								accept={ACCEPTED_IMAGE_TYPES}
+								multiple
+								disabled={imageFiles.length >= MAX_NOTE_ATTACHMENTS}
+								onChange={(e) => {
+									const picked = Array.from(e.target.files || []);
+									setImageFiles((current) =>
+										[...current, ...picked].slice(
+											0,
+											MAX_NOTE_ATTACHMENTS
+										)
+									);
+									// Lets the same file be picked again after removing it
+									e.target.value = '';
+								}}
+								className="file:mr-4 file:py-3 file:px-5 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
+							/>
+							{imageFiles.length > 0 && (
+								<ul className="flex flex-col gap-2 mt-3">
+									{imageFiles.map((file, index) => (
+										<li
+											key={`${file.name}-${index}`}
+											className="flex items-center justify-between gap-2 text-sm"
+										>
+											<span className="truncate">{file.name}</span>
+											<Button
+												type="button"
+												variant="ghost"
+												size="sm"
+												onClick={() =>
+													setImageFiles((current) =>
+														current.filter((_, i) => i !== index)
+													)
+												}
+												className="h-8 px-2"
+												title="Remove image"
+											>
+												<X size={14} />
+											</Button>
+										</li>
+									))}
+								</ul>
+							)}
+							{imageFiles.length > 0 && (
+								<label className="flex items-center gap-3 text-sm mt-3">
+									<input
+										type="checkbox"
+										checked={hasSensitiveImage}
+										onChange={(e) => setHasSensitiveImage(e.target.checked)}
+									/>
+									Blur the images until tapped
+								</label>
+							)}
+							<div className="text-xs text-muted-foreground mt-3">
+								Images are resized and stripped of location data before
+								upload.
+							</div>
+						</div>
+					)}
+
+					{canSchedule && (
+						<div>
+							<Label className="mb-3 block">Post at</Label>
+							<div className="flex flex-wrap gap-2">
+								{[false, true].map((later) => (
+									<Button
+										key={String(later)}
+										type="button"
+										variant="outline"
+										size="sm"
+										onClick={() => setPublishLater(later)}
+										className={cn(
+											'rounded-full',
+											publishLater === later &&
+												'border-primary ring-2 ring-primary/20'
+										)}
+									>
+										{later ? 'Later' : 'Now'}
+									</Button>
+								))}
+							</div>
+							{publishLater && (
+								<Input
+									type="datetime-local"
+									value={publishAt}
+									min={toDateTimeLocal(new Date())}
+									max={toDateTimeLocal(
+										new Date(Date.now() + MAX_SCHEDULE_AHEAD_MS)
+									)}
+									onChange={(e) => setPublishAt(e.target.value)}
+									className="h-12 rounded-lg mt-3"
+								/>
+							)}
+						</div>
+					)}
+
+					{canSchedule && (
+						<div>
+							<label className="flex items-start gap-3 text-sm">
+								<input
+									type="checkbox"
+									checked={isSealed}
+									onChange={(e) => setIsSealed(e.target.checked)}
+									className="mt-1"
+								/>
+								<span>
+									<span className="font-medium">Seal until a date</span>
+									<span className="block text-xs text-muted-foreground mt-1">
+										Nobody, you included, can read the message, sender or
+										images before then.
+									</span>
+								</span>
+							</label>
+							{isSealed && (
+								<Input
+									type="datetime-local"
+									value={sealedUntil}
+									min={toDateTimeLocal(new Date())}
+									max={toDateTimeLocal(new Date(Date.now() + MAX_SEAL_MS))}
+									onChange={(e) => setSealedUntil(e.target.value)}
+									className="h-12 rounded-lg mt-3"
+								/>
+							)}
+						</div>
+					)}
+
+					{!editingNote && (
+						<div>
+							<Label className="mb-3 block">Expires after</Label>
+							<div className="flex flex-wrap gap-2">
+								{(
+									[
+										'never',
+										...NOTE_EXPIRY_OPTIONS.map((_, index) => index),
+										'custom',
+									] as ExpiryChoice[]
+								).map((choice) => (
+									<Button
+										key={choice}
+										type="button"
+										variant="outline"
+										size="sm"
+										onClick={() => setExpiry(choice)}
+										className={cn(
+											'rounded-full',
+											expiry === choice &&
+												'border-primary ring-2 ring-primary/20'
+										)}
+									>
+										{choice === 'never'
+											? 'Never'
+											: choice === 'custom'
+												? 'Custom'
+												: NOTE_EXPIRY_OPTIONS[choice].label}
+									</Button>
+								))}
+							</div>
+							{expiry === 'custom' && (
+								<Input
+									type="datetime-local"
+									value={customExpiresAt}
+									min={toDateTimeLocal(
+										new Date(Date.now() + MIN_NOTE_LIFETIME_MS)
+									)}
+									onChange={(e) => setCustomExpiresAt(e.target.value)}
+									className="h-12 rounded-lg mt-3"
+								/>
+							)}
+						</div>
+					)}
 
 					<div>
 						<Label className="mb-3 block">Note Color</Label>
@@ -244,10 +719,20 @@ export function CreateNoteModal({
 						</Button>
 						<Button
 							type="submit"
-							disabled={isSubmitting}
+							disabled={isSubmitting || isCoolingDown}
 							className="h-12 px-6 rounded-lg"
 						>
-							{isSubmitting ? 'Posting...' : 'Post Note'}
+							{editingNote
+								? isSubmitting
+									? 'Saving...'
+									: 'Save Changes'
+								: isSubmitting
+									? 'Posting...'
+									: isCoolingDown
+										? `Wait ${formatTimeLeft(cooldownMs)}`
+									: publishLater && canSchedule
+										? 'Schedule Note'
+										: 'Post Note'}
 						</Button>
 					</div>
 				</form>
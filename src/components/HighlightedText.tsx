@@ -0,0 +1,33 @@
+import { Fragment, useMemo } from 'react';
+import { buildHighlightPattern } from '@/lib/search';
+
+interface HighlightedTextProps {
+	text: string;
+	terms?: string[];
+}
+
+export function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+	const parts = useMemo(() => {
+		const pattern = buildHighlightPattern(terms);
+		if (!pattern) return [text];
+		// split() with a capture group keeps the matches at odd indexes
+		return text.split(pattern);
+	}, [text, terms]);
+
+	return (
+		<>
+			{parts.map((part, index) =>
+				index % 2 === 1 ? (
+					<mark
+						key={index}
+						className="bg-yellow-300/70 text-inherit rounded-sm px-0.5"
+					>
+						{part}
+					</mark>
+				) : (
+					<Fragment key={index}>{part}</Fragment>
+				)
+			)}
+		</>
+	);
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogDescription,
+} from '@/components/ui/dialog';
+import { RecoverIdentityForm } from './RecoverIdentityForm';
+import { supabase } from '@/integrations/supabase/client';
+import type { Note } from '@/lib/notes';
+import { toPlainText } from '@/lib/markdown';
+import {
+	generateRecoveryKey,
+	getRecoveryLink,
+	normalizeRecoveryKey,
+} from '@/lib/identity';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+type IdentityTab = 'notes' | 'export' | 'import';
+
+interface IdentityModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onRecovered: () => void;
+	userId: string;
+}
+
+const TABS: { value: IdentityTab; label: string }[] = [
+	{ value: 'notes', label: 'My notes' },
+	{ value: 'export', label: 'Back up' },
+	{ value: 'import', label: 'Restore' },
+];
+
+const MY_NOTES_LIMIT = 100;
+
+export function IdentityModal({
+	isOpen,
+	onClose,
+	onRecovered,
+	userId,
+}: IdentityModalProps) {
+	const [tab, setTab] = useState<IdentityTab>('notes');
+	const [myNotes, setMyNotes] = useState<Note[]>([]);
+	const [loadingNotes, setLoadingNotes] = useState(false);
+	const [hasRecoveryKey, setHasRecoveryKey] = useState(false);
+	const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+	const [isCreatingKey, setIsCreatingKey] = useState(false);
+	const { toast } = useToast();
+
+	const fetchMyNotes = useCallback(async () => {
+		if (!userId) return;
+
+		setLoadingNotes(true);
+		try {
+			const [notesResult, keyResult] = await Promise.all([
+				supabase
+					.from('notes_feed')
+					.select('*')
+					.eq('is_own', true)
+					.order('created_at', { ascending: false })
+					.limit(MY_NOTES_LIMIT)
+					.returns<Note[]>(),
+				supabase.rpc('has_recovery_key'),
+			]);
+
+			if (notesResult.error) throw notesResult.error;
+			if (keyResult.error) throw keyResult.error;
+
+			setMyNotes(notesResult.data || []);
+			setHasRecoveryKey(!!keyResult.data);
+		} catch (error) {
+			console.error('Error fetching own notes:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to load your notes. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setLoadingNotes(false);
+		}
+	}, [userId, toast]);
+
+	useEffect(() => {
+		if (isOpen) fetchMyNotes();
+	}, [isOpen, fetchMyNotes]);
+
+	const handleClose = () => {
+		// The key is only ever shown once
+		setRecoveryKey(null);
+		setTab('notes');
+		onClose();
+	};
+
+	const handleCreateKey = async () => {
+		if (
+			hasRecoveryKey &&
+			!window.confirm(
+				'Create a new recovery key? Your previous key will stop working.'
+			)
+		)
+			return;
+
+		setIsCreatingKey(true);
+		try {
+			const newKey = generateRecoveryKey();
+			const { error } = await supabase.rpc('set_recovery_key', {
+				p_recovery_key: normalizeRecoveryKey(newKey),
+			});
+
+			if (error) throw error;
+
+			setRecoveryKey(newKey);
+			setHasRecoveryKey(true);
+		} catch (error) {
+			console.error('Error creating recovery key:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to create a recovery key. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsCreatingKey(false);
+		}
+	};
+
+	const handleCopyKey = async () => {
+		try {
+			await navigator.clipboard.writeText(recoveryKey);
+			toast({
+				title: 'Key copied',
+				description: 'Keep it somewhere private, like a password manager.',
+			});
+		} catch (error) {
+			console.error('Error copying recovery key:', error);
+			toast({
+				title: 'Error',
+				description: 'Could not copy the key to your clipboard.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const handleRecovered = () => {
+		setTab('notes');
+		fetchMyNotes();
+		onRecovered();
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={handleClose}>
+			<DialogContent className="w-full max-w-md sm:max-w-lg p-8 flex flex-col max-h-[90vh] overflow-y-auto">
+				<DialogHeader className="mb-4">
+					<DialogTitle className="text-2xl">Your Identity</DialogTitle>
+					<DialogDescription>
+						Your notes are tied to this browser. Back up a recovery key to
+						manage them from another device.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex gap-2 mb-6">
+					{TABS.map(({ value, label }) => (
+						<Button
+							key={value}
+							type="button"
+							variant={tab === value ? 'default' : 'outline'}
+							onClick={() => setTab(value)}
+							className="flex-1 rounded-lg"
+						>
+							{label}
+						</Button>
+					))}
+				</div>
+
+				{tab === 'notes' &&
+					(loadingNotes ? (
+						<p className="text-center text-gray-500 py-8">
+							Loading your notes...
+						</p>
+					) : myNotes.length === 0 ? (
+						<p className="text-center text-gray-500 py-8">
+							You haven't posted any notes from this identity yet.
+						</p>
+					) : (
+						<ul className="flex flex-col gap-2">
+							{myNotes.map((note) => (
+								<li key={note.id}>
+									<Link
+										to={`/n/${note.short_id}`}
+										onClick={handleClose}
+										className={cn(
+											'block rounded-lg border p-3 hover:bg-gray-50',
+											note.is_hidden && 'opacity-60'
+										)}
+									>
+										<div className="flex items-center justify-between text-xs font-mono text-gray-500 mb-1">
+											<span>
+												{note.short_id}
+												{note.replying_to_id && ' · reply'}
+											</span>
+											<span>
+												{new Date(note.created_at).toLocaleDateString()}
+											</span>
+										</div>
+										<p className="text-sm text-gray-800 truncate">
+											{note.is_hidden
+												? 'Hidden pending review'
+												: note.is_sealed
+													? `Sealed until ${new Date(note.sealed_until).toLocaleString()}`
+													: toPlainText(note.message)}
+										</p>
+									</Link>
+								</li>
+							))}
+						</ul>
+					))}
+
+				{tab === 'export' &&
+					(recoveryKey ? (
+						<div className="flex flex-col items-center gap-4">
+							<div className="bg-white p-3 rounded-lg border">
+								<QRCodeSVG value={getRecoveryLink(recoveryKey)} size={180} />
+							</div>
+							<p className="font-mono text-lg tracking-wider text-center">
+								{recoveryKey}
+							</p>
+							<Button
+								type="button"
+								variant="outline"
+								onClick={handleCopyKey}
+								className="rounded-lg"
+							>
+								<Copy className="mr-2" size={16} />
+								Copy key
+							</Button>
+							<p className="text-sm text-gray-500 text-center">
+								Scan the code or enter the key under "Restore" on another
+								device. Anyone with this key can take over your notes,
+								and it won't be shown again.
+							</p>
+						</div>
+					) : (
+						<div className="flex flex-col gap-4">
+							<p className="text-sm text-gray-500">
+								{hasRecoveryKey
+									? 'You already have a recovery key. Creating a new one replaces it.'
+									: 'A recovery key moves your notes to another browser if you clear this one or switch devices.'}
+							</p>
+							<Button
+								type="button"
+								onClick={handleCreateKey}
+								disabled={isCreatingKey}
+								className="h-12 rounded-lg"
+							>
+								<KeyRound className="mr-2" size={18} />
+								{isCreatingKey
+									? 'Creating...'
+									: hasRecoveryKey
+										? 'Create a new recovery key'
+										: 'Create recovery key'}
+							</Button>
+						</div>
+					))}
+
+				{tab === 'import' && (
+					<RecoverIdentityForm onRecovered={handleRecovered} />
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,70 +1,274 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { X } from 'lucide-react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
 
 interface ImageViewerModalProps {
   isOpen: boolean;
   onClose: () => void;
-  imageUrl: string;
+  images: string[];
+  initialIndex?: number;
 }
 
-export function ImageViewerModal({ isOpen, onClose, imageUrl }: ImageViewerModalProps) {
-  const [scale, setScale] = useState(1);
-  const [position, setPosition] = useState({ x: 0, y: 0 });
-  const [isDragging, setIsDragging] = useState(false);
-  const [startDrag, setStartDrag] = useState({ x: 0, y: 0 });
+interface View {
+  scale: number;
+  // Offset of the image center from the container center, in pixels
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const WHEEL_ZOOM_STEP = 0.1;
+const KEYBOARD_ZOOM_STEP = 0.25;
+const DOUBLE_TAP_SCALE = 2.5;
+const KEYBOARD_PAN_STEP = 60;
+// Horizontal travel, in pixels, that counts as a swipe to the next image
+const SWIPE_THRESHOLD = 50;
+// Two taps closer together than this (in time and space) are a double tap
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+// Pointer travel below this still counts as a tap rather than a drag
+const TAP_SLOP = 10;
+
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+export function ImageViewerModal({ isOpen, onClose, images, initialIndex = 0 }: ImageViewerModalProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [isGesturing, setIsGesturing] = useState(false);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
   const imageRef = useRef<HTMLImageElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  // Active pointers, in container-centered coordinates
+  const pointers = useRef(new Map<number, Point>());
+  // Where the current gesture started, to compute pans and pinches from
+  const gestureStart = useRef<{ view: View; points: Point[] } | null>(null);
+  const tapStart = useRef<Point | null>(null);
+  const lastTap = useRef<{ point: Point; time: number } | null>(null);
+  const hasMultiple = images.length > 1;
+
+  const toContainerPoint = useCallback((clientX: number, clientY: number): Point => {
+    if (!container) return { x: 0, y: 0 };
+    const rect = container.getBoundingClientRect();
+    return {
+      x: clientX - rect.left - rect.width / 2,
+      y: clientY - rect.top - rect.height / 2,
+    };
+  }, [container]);
+
+  // Keeps at least the whole container covered by the image once it is
+  // larger than the container, so it can't be dragged off-screen.
+  const clampView = useCallback((next: View): View => {
+    const image = imageRef.current;
+    if (!container || !image) return next;
+    const maxX = Math.max(0, (image.offsetWidth * next.scale - container.clientWidth) / 2);
+    const maxY = Math.max(0, (image.offsetHeight * next.scale - container.clientHeight) / 2);
+    return {
+      scale: next.scale,
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  }, [container]);
+
+  // Zooms so the image point under `anchor` stays under it
+  const zoomAt = useCallback((from: View, nextScale: number, anchor: Point): View => {
+    const scale = clampScale(nextScale);
+    const ratio = scale / from.scale;
+    return clampView({
+      scale,
+      x: anchor.x - (anchor.x - from.x) * ratio,
+      y: anchor.y - (anchor.y - from.y) * ratio,
+    });
+  }, [clampView]);
 
   const resetTransform = useCallback(() => {
-    setScale(1);
-    setPosition({ x: 0, y: 0 });
+    setView(INITIAL_VIEW);
   }, []);
 
   useEffect(() => {
-    if (!isOpen) {
+    if (isOpen) {
+      setIndex(initialIndex);
+    } else {
       resetTransform();
     }
-  }, [isOpen, resetTransform]);
-
-  const handleWheel = useCallback((event: React.WheelEvent<HTMLDivElement>) => {
-    event.preventDefault();
-    const scaleAmount = 0.1;
-    const newScale = event.deltaY < 0 ? scale * (1 + scaleAmount) : scale / (1 + scaleAmount);
-    setScale(Math.max(0.1, Math.min(newScale, 5))); // Limit zoom between 0.1x and 5x
-  }, [scale]);
-
-  const handleMouseDown = useCallback((event: React.MouseEvent<HTMLImageElement>) => {
-    if (scale > 1) { // Only allow dragging if zoomed in
-      setIsDragging(true);
-      setStartDrag({ x: event.clientX - position.x, y: event.clientY - position.y });
+  }, [isOpen, initialIndex, resetTransform]);
+
+  const showImage = useCallback((offset: number) => {
+    setIndex((current) => (current + offset + images.length) % images.length);
+    resetTransform();
+  }, [images.length, resetTransform]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const current = viewRef.current;
+      const center = { x: 0, y: 0 };
+
+      switch (event.key) {
+        case '+':
+        case '=':
+          setView(zoomAt(current, current.scale + KEYBOARD_ZOOM_STEP, center));
+          break;
+        case '-':
+        case '_':
+          setView(zoomAt(current, current.scale - KEYBOARD_ZOOM_STEP, center));
+          break;
+        case '0':
+          resetTransform();
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight':
+        case 'ArrowUp':
+        case 'ArrowDown': {
+          // Arrows pan a zoomed image and flip through the gallery otherwise
+          if (current.scale <= MIN_SCALE) {
+            if (event.key === 'ArrowLeft' && hasMultiple) showImage(-1);
+            if (event.key === 'ArrowRight' && hasMultiple) showImage(1);
+            break;
+          }
+          const dx = event.key === 'ArrowLeft' ? KEYBOARD_PAN_STEP : event.key === 'ArrowRight' ? -KEYBOARD_PAN_STEP : 0;
+          const dy = event.key === 'ArrowUp' ? KEYBOARD_PAN_STEP : event.key === 'ArrowDown' ? -KEYBOARD_PAN_STEP : 0;
+          setView(clampView({ ...current, x: current.x + dx, y: current.y + dy }));
+          break;
+        }
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, hasMultiple, showImage, zoomAt, clampView, resetTransform]);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native one
+  useEffect(() => {
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const current = viewRef.current;
+      const factor = event.deltaY < 0 ? 1 + WHEEL_ZOOM_STEP : 1 / (1 + WHEEL_ZOOM_STEP);
+      setView(zoomAt(current, current.scale * factor, toContainerPoint(event.clientX, event.clientY)));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [container, zoomAt, toContainerPoint]);
+
+  const startGesture = useCallback(() => {
+    gestureStart.current = {
+      view: viewRef.current,
+      points: Array.from(pointers.current.values()),
+    };
+  }, []);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toContainerPoint(event.clientX, event.clientY);
+    pointers.current.set(event.pointerId, point);
+    tapStart.current = pointers.current.size === 1 ? point : null;
+    setIsGesturing(true);
+    startGesture();
+  }, [toContainerPoint, startGesture]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(event.pointerId) || !gestureStart.current) return;
+    pointers.current.set(event.pointerId, toContainerPoint(event.clientX, event.clientY));
+
+    const { view: startView, points: startPoints } = gestureStart.current;
+    const points = Array.from(pointers.current.values());
+
+    if (points.length >= 2 && startPoints.length >= 2) {
+      // Pinch zooms around the fingers' midpoint and moving both fingers pans
+      const startMid = midpoint(startPoints[0], startPoints[1]);
+      const mid = midpoint(points[0], points[1]);
+      const startDistance = distance(startPoints[0], startPoints[1]) || 1;
+      const zoomed = zoomAt(startView, startView.scale * (distance(points[0], points[1]) / startDistance), startMid);
+      setView(clampView({
+        ...zoomed,
+        x: zoomed.x + mid.x - startMid.x,
+        y: zoomed.y + mid.y - startMid.y,
+      }));
+    } else if (points.length === 1 && startView.scale > MIN_SCALE) {
+      setView(clampView({
+        ...startView,
+        x: startView.x + points[0].x - startPoints[0].x,
+        y: startView.y + points[0].y - startPoints[0].y,
+      }));
+    }
+  }, [toContainerPoint, zoomAt, clampView]);
+
+  const handleTap = useCallback((point: Point) => {
+    const now = Date.now();
+    const previous = lastTap.current;
+
+    if (previous && now - previous.time < DOUBLE_TAP_MS && distance(previous.point, point) < DOUBLE_TAP_DISTANCE) {
+      lastTap.current = null;
+      const current = viewRef.current;
+      setView(current.scale > MIN_SCALE ? INITIAL_VIEW : zoomAt(current, DOUBLE_TAP_SCALE, point));
+      return;
     }
-  }, [scale, position]);
-
-  const handleMouseMove = useCallback((event: React.MouseEvent<HTMLImageElement>) => {
-    if (isDragging) {
-      setPosition({
-        x: event.clientX - startDrag.x,
-        y: event.clientY - startDrag.y,
-      });
+    lastTap.current = { point, time: now };
+  }, [zoomAt]);
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const point = pointers.current.get(event.pointerId);
+    if (!point) return;
+    pointers.current.delete(event.pointerId);
+
+    const start = tapStart.current;
+    if (pointers.current.size === 0) {
+      tapStart.current = null;
+      setIsGesturing(false);
+
+      if (start && event.type === 'pointerup') {
+        const deltaX = point.x - start.x;
+        if (distance(start, point) < TAP_SLOP) {
+          handleTap(point);
+        } else if (hasMultiple && viewRef.current.scale <= MIN_SCALE && Math.abs(deltaX) > SWIPE_THRESHOLD) {
+          showImage(deltaX < 0 ? 1 : -1);
+        }
+      }
+    } else {
+      // A finger lifted mid-pinch: carry on panning with the remaining one
+      tapStart.current = null;
+      startGesture();
     }
-  }, [isDragging, startDrag]);
+  }, [handleTap, hasMultiple, showImage, startGesture]);
 
-  const handleMouseUp = useCallback(() => {
-    setIsDragging(false);
-  }, []);
+  const handleEscapeKeyDown = useCallback((event: KeyboardEvent) => {
+    // Esc first zooms back out, then closes
+    if (viewRef.current.scale > MIN_SCALE) {
+      event.preventDefault();
+      resetTransform();
+    }
+  }, [resetTransform]);
 
-  const handleMouseLeave = useCallback(() => {
-    setIsDragging(false);
-  }, []);
+  const cursor = view.scale > MIN_SCALE ? (isGesturing ? 'grabbing' : 'grab') : 'zoom-in';
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent
-        onWheel={handleWheel}
         hideCloseButton
         variant="fullScreen"
+        onEscapeKeyDown={handleEscapeKeyDown}
       >
         <Button
           variant="ghost"
@@ -76,28 +280,53 @@ export function ImageViewerModal({ isOpen, onClose, imageUrl }: ImageViewerModal
         </Button>
 
         <div
-          ref={containerRef}
-          className="flex items-center justify-center w-[80vw] h-screen bg-black mx-auto"
-          style={{ cursor: isDragging ? 'grabbing' : (scale > 1 ? 'grab' : 'default') }}
+          ref={setContainer}
+          className="flex items-center justify-center w-full sm:w-[80vw] h-screen bg-black mx-auto overflow-hidden select-none"
+          // The gestures below replace the browser's own pinch and scroll
+          style={{ cursor, touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
         >
           <img
             ref={imageRef}
-            src={imageUrl}
-            alt="Viewer"
+            src={images[index]}
+            alt={hasMultiple ? `Image ${index + 1} of ${images.length}` : 'Viewer'}
             className="max-w-full max-h-full object-contain"
             style={{
-              transform: `translate(${position.x}px, ${position.y}px) scale(${scale})`,
-              transition: isDragging ? 'none' : 'transform 0.1s ease-out',
-              cursor: isDragging ? 'grabbing' : (scale > 1 ? 'grab' : 'zoom-in'),
-              touchAction: 'none', // Disable default touch actions like pinch-zoom
+              transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+              transition: isGesturing ? 'none' : 'transform 0.1s ease-out',
             }}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseLeave}
             draggable="false" // Prevent native drag behavior
           />
         </div>
+
+        {hasMultiple && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => showImage(-1)}
+              className="absolute left-4 top-1/2 -translate-y-1/2 text-white hover:bg-white/20 z-[100]"
+              title="Previous image"
+            >
+              <ChevronLeft className="h-8 w-8" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => showImage(1)}
+              className="absolute right-4 top-1/2 -translate-y-1/2 text-white hover:bg-white/20 z-[100]"
+              title="Next image"
+            >
+              <ChevronRight className="h-8 w-8" />
+            </Button>
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 text-sm text-white/80 z-[100]">
+              {index + 1} / {images.length}
+            </div>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Ban, EyeOff, LogOut, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BlockedWordsPanel } from './BlockedWordsPanel';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+
+type QueuedNote =
+	Database['public']['Functions']['get_moderation_queue']['Returns'][number];
+type ModerationAction =
+	Database['public']['Tables']['moderation_actions']['Row'];
+type ModerationActionKind = 'restore' | 'delete' | 'ban';
+
+const MODERATION_LOG_LIMIT = 50;
+
+const actionLabels: Record<ModerationActionKind, string> = {
+	restore: 'Restored',
+	delete: 'Deleted',
+	ban: 'Banned session',
+};
+
+const formatTimestamp = (value: string | null) =>
+	value ? new Date(value).toLocaleString() : '—';
+
+export function ModerationDashboard() {
+	const [queue, setQueue] = useState<QueuedNote[]>([]);
+	const [log, setLog] = useState<ModerationAction[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [pendingNoteId, setPendingNoteId] = useState<string | null>(null);
+	const { toast } = useToast();
+
+	const fetchModerationData = useCallback(async () => {
+		try {
+			const [queueResult, logResult] = await Promise.all([
+				supabase.rpc('get_moderation_queue'),
+				supabase
+					.from('moderation_actions')
+					.select('*')
+					.order('created_at', { ascending: false })
+					.limit(MODERATION_LOG_LIMIT),
+			]);
+
+			if (queueResult.error) throw queueResult.error;
+			if (logResult.error) throw logResult.error;
+
+			setQueue(queueResult.data || []);
+			setLog(logResult.data || []);
+		} catch (error) {
+			console.error('Error fetching moderation queue:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to load the moderation queue.',
+				variant: 'destructive',
+			});
+		} finally {
+			setLoading(false);
+		}
+	}, [toast]);
+
+	useEffect(() => {
+		fetchModerationData();
+	}, [fetchModerationData]);
+
+	const handleAction = async (
+		note: QueuedNote,
+		action: ModerationActionKind
+	) => {
+		let reason: string | undefined;
+		if (action === 'delete') {
+			if (!window.confirm('Permanently delete this note and its replies?'))
+				return;
+		}
+		if (action === 'ban') {
+			const input = window.prompt(
+				'Ban the session that posted this note? Optionally give a reason:'
+			);
+			if (input === null) return;
+			reason = input.trim() || undefined;
+		}
+
+		setPendingNoteId(note.id);
+		try {
+			const { error } = await supabase.rpc('moderate_note', {
+				p_note_id: note.id,
+				p_action: action,
+				p_reason: reason,
+			});
+
+			if (error) throw error;
+
+			toast({
+				title: actionLabels[action],
+				description: `Note ${note.short_id} has been updated.`,
+			});
+			await fetchModerationData();
+		} catch (error) {
+			console.error(`Error applying moderation action ${action}:`, error);
+			toast({
+				title: 'Error',
+				description: 'Failed to apply the moderation action.',
+				variant: 'destructive',
+			});
+		} finally {
+			setPendingNoteId(null);
+		}
+	};
+
+	return (
+		<div className="min-h-screen bg-geminiDark text-gray-100 p-6 sm:p-10">
+			<div className="max-w-5xl mx-auto">
+				<div className="flex items-center justify-between gap-4 flex-wrap mb-8">
+					<h1 className="text-3xl font-bold">Moderation</h1>
+					<div className="flex gap-2">
+						<Button
+							variant="outline"
+							onClick={fetchModerationData}
+							className="bg-transparent border-white/30 hover:bg-white/10 hover:text-white"
+						>
+							<RefreshCw className="mr-2" size={16} />
+							Refresh
+						</Button>
+						<Button
+							variant="outline"
+							onClick={() => supabase.auth.signOut()}
+							className="bg-transparent border-white/30 hover:bg-white/10 hover:text-white"
+						>
+							<LogOut className="mr-2" size={16} />
+							Sign out
+						</Button>
+					</div>
+				</div>
+
+				<h2 className="text-xl font-semibold mb-4">Review queue</h2>
+				{loading ? (
+					<div className="text-gray-400 py-10">Loading...</div>
+				) : queue.length === 0 ? (
+					<div className="text-gray-400 py-10">
+						Nothing to review. No notes are reported or hidden.
+					</div>
+				) : (
+					<div className="flex flex-col gap-4 mb-12">
+						{queue.map((note) => (
+							<div
+								key={note.id}
+								className="bg-white/5 border border-white/10 rounded-lg p-5"
+							>
+								<div className="flex items-start justify-between gap-4 flex-wrap">
+									<div className="min-w-0 flex-1">
+										<div className="flex items-center gap-2 text-xs font-mono text-gray-400 mb-2 flex-wrap">
+											<span>{note.short_id}</span>
+											{note.replying_to_id && <span>· reply</span>}
+											<span>· posted {formatTimestamp(note.created_at)}</span>
+											{note.is_hidden && (
+												<span className="inline-flex items-center gap-1 text-amber-400">
+													<EyeOff size={12} /> hidden
+												</span>
+											)}
+											{note.session_banned && (
+												<span className="text-red-400">· session banned</span>
+											)}
+										</div>
+										{note.held_reason && (
+											<div className="text-sm text-amber-300 mb-1">
+												Held by the filter: {note.held_reason}
+											</div>
+										)}
+										{note.to_recipient && (
+											<div className="text-sm text-gray-300">
+												To: {note.to_recipient}
+											</div>
+										)}
+										{note.from_sender && (
+											<div className="text-sm text-gray-300">
+												From: {note.from_sender}
+											</div>
+										)}
+										<p className="mt-2 break-words">{note.message}</p>
+										{note.image_url && (
+											<img
+												src={note.image_url}
+												alt="Note image"
+												className="mt-3 max-h-40 rounded"
+											/>
+										)}
+									</div>
+									<div className="text-right text-sm shrink-0">
+										<div className="text-2xl font-bold">
+											{note.report_count}
+										</div>
+										<div className="text-gray-400">
+											{note.report_count === 1 ? 'report' : 'reports'}
+										</div>
+										<div className="text-xs text-gray-500 mt-2">
+											First: {formatTimestamp(note.first_reported_at)}
+										</div>
+										<div className="text-xs text-gray-500">
+											Last: {formatTimestamp(note.last_reported_at)}
+										</div>
+									</div>
+								</div>
+
+								<div className="flex gap-2 mt-4 flex-wrap">
+									<Button
+										size="sm"
+										onClick={() => handleAction(note, 'restore')}
+										disabled={pendingNoteId === note.id}
+										className="bg-green-700 hover:bg-green-800 text-white"
+									>
+										<RotateCcw className="mr-2" size={14} />
+										Restore
+									</Button>
+									<Button
+										size="sm"
+										variant="destructive"
+										onClick={() => handleAction(note, 'delete')}
+										disabled={pendingNoteId === note.id}
+									>
+										<Trash2 className="mr-2" size={14} />
+										Delete
+									</Button>
+									<Button
+										size="sm"
+										variant="destructive"
+										onClick={() => handleAction(note, 'ban')}
+										disabled={
+											pendingNoteId === note.id || note.session_banned
+										}
+									>
+										<Ban className="mr-2" size={14} />
+										Ban session
+									</Button>
+								</div>
+							</div>
+						))}
+					</div>
+				)}
+
+				<BlockedWordsPanel />
+
+				<h2 className="text-xl font-semibold mb-4">Audit log</h2>
+				{log.length === 0 ? (
+					<div className="text-gray-400 py-6">No moderation actions yet.</div>
+				) : (
+					<div className="overflow-x-auto">
+						<table className="w-full text-sm">
+							<thead className="text-left text-gray-400 border-b border-white/10">
+								<tr>
+									<th className="py-2 pr-4 font-medium">When</th>
+									<th className="py-2 pr-4 font-medium">Action</th>
+									<th className="py-2 pr-4 font-medium">Note</th>
+									<th className="py-2 pr-4 font-medium">Session</th>
+									<th className="py-2 font-medium">Reason</th>
+								</tr>
+							</thead>
+							<tbody>
+								{log.map((entry) => {
+									const details = (entry.details || {}) as {
+										short_id?: string;
+										reason?: string | null;
+									};
+									return (
+										<tr key={entry.id} className="border-b border-white/5">
+											<td className="py-2 pr-4 whitespace-nowrap">
+												{formatTimestamp(entry.created_at)}
+											</td>
+											<td className="py-2 pr-4">
+												{actionLabels[entry.action as ModerationActionKind] ??
+													entry.action}
+											</td>
+											<td className="py-2 pr-4 font-mono">
+												{details.short_id ?? entry.note_id}
+											</td>
+											<td className="py-2 pr-4 font-mono text-xs text-gray-400">
+												{entry.session_id}
+											</td>
+											<td className="py-2 text-gray-300">
+												{details.reason || '—'}
+											</td>
+										</tr>
+									);
+								})}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
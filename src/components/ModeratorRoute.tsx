@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuthSession } from '@/hooks/use-auth-session';
+import { useToast } from '@/hooks/use-toast';
+
+interface ModeratorRouteProps {
+	children: React.ReactNode;
+}
+
+/**
+ * Only renders its children for signed-in users whose Supabase
+ * `app_metadata.role` is `moderator`. Everyone else gets a sign-in form.
+ * The database checks the same claim, so this is a convenience, not the
+ * access control itself.
+ */
+export function ModeratorRoute({ children }: ModeratorRouteProps) {
+	const { session, loading } = useAuthSession();
+	const [email, setEmail] = useState('');
+	const [password, setPassword] = useState('');
+	const [isSigningIn, setIsSigningIn] = useState(false);
+	const { toast } = useToast();
+
+	// Board visitors are signed in anonymously; that doesn't count here
+	const signedInUser = session?.user.is_anonymous ? null : session?.user;
+	const isModerator = signedInUser?.app_metadata?.role === 'moderator';
+
+	const handleSignIn = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		setIsSigningIn(true);
+		try {
+			const { error } = await supabase.auth.signInWithPassword({
+				email: email.trim(),
+				password,
+			});
+
+			if (error) throw error;
+
+			setPassword('');
+		} catch (error) {
+			console.error('Error signing in:', error);
+			toast({
+				title: 'Error',
+				description: 'Invalid email or password.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsSigningIn(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="min-h-screen bg-geminiDark flex items-center justify-center">
+				<div className="text-lg text-gray-400">Loading...</div>
+			</div>
+		);
+	}
+
+	if (isModerator) {
+		return <>{children}</>;
+	}
+
+	return (
+		<div className="min-h-screen bg-geminiDark flex items-center justify-center p-6">
+			<div className="w-full max-w-sm bg-background rounded-xl shadow-2xl p-8">
+				<h1 className="text-2xl font-bold mb-2">Moderation</h1>
+				{signedInUser ? (
+					<>
+						<p className="text-sm text-muted-foreground mb-6">
+							You are signed in as {signedInUser.email}, but this
+							account is not a moderator.
+						</p>
+						<Button
+							variant="outline"
+							onClick={() => supabase.auth.signOut()}
+							className="w-full h-12 rounded-lg"
+						>
+							Sign out
+						</Button>
+					</>
+				) : (
+					<form onSubmit={handleSignIn} className="flex flex-col gap-4">
+						<p className="text-sm text-muted-foreground mb-2">
+							Sign in with a moderator account.
+						</p>
+						<div>
+							<Label htmlFor="moderator-email" className="mb-3 block">
+								Email
+							</Label>
+							<Input
+								id="moderator-email"
+								type="email"
+								autoComplete="username"
+								value={email}
+								onChange={(e) => setEmail(e.target.value)}
+								className="h-12 rounded-lg"
+								required
+							/>
+						</div>
+						<div>
+							<Label htmlFor="moderator-password" className="mb-3 block">
+								Password
+							</Label>
+							<Input
+								id="moderator-password"
+								type="password"
+								autoComplete="current-password"
+								value={password}
+								onChange={(e) => setPassword(e.target.value)}
+								className="h-12 rounded-lg"
+								required
+							/>
+						</div>
+						<Button
+							type="submit"
+							disabled={isSigningIn}
+							className="h-12 rounded-lg mt-2"
+						>
+							{isSigningIn ? 'Signing in...' : 'Sign in'}
+						</Button>
+					</form>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import { formatTimeLeft } from '@/lib/notes';
+
+interface NoteCountdownProps {
+	expiresAt: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Time left before a note expires, ticking every second in its last hour. */
+export function NoteCountdown({ expiresAt }: NoteCountdownProps) {
+	const expiresAtMs = new Date(expiresAt).getTime();
+	const [now, setNow] = useState(Date.now);
+	const timeLeft = expiresAtMs - now;
+	const isExpired = timeLeft <= 0;
+	const tickMs = timeLeft < HOUR_MS ? 1000 : 30 * 1000;
+
+	useEffect(() => {
+		if (isExpired) return;
+		const interval = window.setInterval(() => setNow(Date.now()), tickMs);
+		return () => window.clearInterval(interval);
+	}, [tickMs, isExpired]);
+
+	return (
+		<span
+			className="inline-flex items-center gap-1 rounded-full bg-black/10 px-2 py-0.5 text-xs font-medium text-gray-700"
+			title={`Expires ${new Date(expiresAt).toLocaleString()}`}
+		>
+			<Hourglass size={12} />
+			{isExpired ? 'Expired' : formatTimeLeft(timeLeft)}
+		</span>
+	);
+}
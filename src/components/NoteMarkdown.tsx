@@ -0,0 +1,70 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { HighlightedText } from './HighlightedText';
+import { cn } from '@/lib/utils';
+import { parseMarkdown, type MarkdownNode } from '@/lib/markdown';
+
+interface NoteMarkdownProps {
+	text: string;
+	terms?: string[];
+}
+
+function Spoiler({ children }: { children: ReactNode }) {
+	const [isRevealed, setIsRevealed] = useState(false);
+
+	return (
+		<span
+			role="button"
+			tabIndex={0}
+			aria-label={isRevealed ? undefined : 'Spoiler, click to reveal'}
+			onClick={() => setIsRevealed(true)}
+			onKeyDown={(e) => {
+				if (e.key === 'Enter' || e.key === ' ') setIsRevealed(true);
+			}}
+			className={cn(
+				'rounded-sm px-0.5 transition-colors',
+				isRevealed
+					? 'bg-black/10'
+					: 'cursor-pointer select-none bg-gray-800 text-transparent [&_*]:text-transparent'
+			)}
+		>
+			{children}
+		</span>
+	);
+}
+
+const renderNodes = (nodes: MarkdownNode[], terms: string[]): ReactNode[] =>
+	nodes.map((node, index) => {
+		switch (node.type) {
+			case 'text':
+				return <HighlightedText key={index} text={node.text} terms={terms} />;
+			case 'break':
+				return <br key={index} />;
+			case 'note_link':
+				return (
+					<Link
+						key={index}
+						to={`/n/${node.shortId}`}
+						className="font-sans text-xs font-semibold text-blue-700 hover:underline"
+					>
+						<HighlightedText text={`>>${node.shortId}`} terms={terms} />
+					</Link>
+				);
+			case 'bold':
+				return <strong key={index}>{renderNodes(node.children, terms)}</strong>;
+			case 'italic':
+				return <em key={index}>{renderNodes(node.children, terms)}</em>;
+			case 'strike':
+				return <s key={index}>{renderNodes(node.children, terms)}</s>;
+			case 'spoiler':
+				return (
+					<Spoiler key={index}>{renderNodes(node.children, terms)}</Spoiler>
+				);
+		}
+	});
+
+/** A note message with its markdown rendered and search terms highlighted. */
+export function NoteMarkdown({ text, terms = [] }: NoteMarkdownProps) {
+	const nodes = useMemo(() => parseMarkdown(text), [text]);
+	return <>{renderNodes(nodes, terms)}</>;
+}
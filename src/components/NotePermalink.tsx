@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SecretNote } from './SecretNote';
+import { CreateNoteModal } from './CreateNoteModal';
+import { SignInErrorBanner } from './SignInErrorBanner';
+import { ReplyThread } from './ReplyThread';
+import { supabase } from '@/integrations/supabase/client';
+import { getNotePermalink, type Note } from '@/lib/notes';
+import { getBoardPath, type Board } from '@/lib/board';
+import { toPlainText } from '@/lib/markdown';
+import { fetchSessionReactions } from '@/lib/reactions';
+import { useDocumentMeta } from '@/hooks/use-document-meta';
+import { useNoteThread } from '@/hooks/use-note-thread';
+import { useIdentity } from '@/hooks/use-identity';
+import { useToast } from '@/hooks/use-toast';
+
+interface NotePermalinkProps {
+	shortId: string;
+}
+
+const PREVIEW_LENGTH = 150;
+
+const describeNote = (note: Note) => {
+	if (note.is_sealed) {
+		const opensAt = new Date(note.sealed_until).toLocaleDateString();
+		return note.to_recipient
+			? `A sealed note to ${note.to_recipient}, opening ${opensAt}`
+			: `A sealed note, opening ${opensAt}`;
+	}
+	// Link previews show the warning, not what it warns about
+	const plainText = note.content_warning
+		? `CW: ${note.content_warning}`
+		: toPlainText(note.message);
+	const message =
+		plainText.length > PREVIEW_LENGTH
+			? `${plainText.slice(0, PREVIEW_LENGTH - 1)}…`
+			: plainText;
+	return note.to_recipient ? `To ${note.to_recipient}: ${message}` : message;
+};
+
+export function NotePermalink({ shortId }: NotePermalinkProps) {
+	const [note, setNote] = useState<Note | null>(null);
+	const [parentShortId, setParentShortId] = useState<string | null>(null);
+	const [board, setBoard] = useState<Pick<
+		Board,
+		'slug' | 'title' | 'max_message_length'
+	> | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+	const [replyingTo, setReplyingTo] = useState<string | undefined>();
+	const [editingNote, setEditingNote] = useState<Note | undefined>();
+	const { userId: sessionId, isRestoring, signInError, retrySignIn } =
+		useIdentity();
+	const navigate = useNavigate();
+	const { toast } = useToast();
+	const noteId = note?.id ?? null;
+	const { replies, refetch: refetchReplies } = useNoteThread(noteId, sessionId);
+
+	useDocumentMeta({
+		title: note
+			? `Note ${note.short_id} · KADA Bulletin Board`
+			: 'Note not found · KADA Bulletin Board',
+		description: note ? describeNote(note) : undefined,
+		image:
+			note?.content_warning || note?.has_sensitive_image
+				? undefined
+				: note?.image_url,
+		url: note ? getNotePermalink(note.short_id) : undefined,
+	});
+
+	const fetchNote = useCallback(async () => {
+		if (isRestoring) return;
+
+		try {
+			const { data: noteData, error: noteError } = await supabase
+				.from('notes_feed')
+				.select('*')
+				.eq('short_id', shortId)
+				.returns<Note[]>()
+				.maybeSingle();
+
+			if (noteError) throw noteError;
+
+			// Hidden notes get the same not-found state as missing ones
+			if (!noteData || noteData.is_hidden) {
+				setNote(null);
+				// A note on a private board only shows up once signed in
+				if (noteData || sessionId || signInError) setLoading(false);
+				return;
+			}
+
+			const [parentResult, boardResult, myReactions] = await Promise.all([
+				noteData.replying_to_id
+					? supabase
+							.from('notes_feed')
+							.select('short_id')
+							.eq('id', noteData.replying_to_id)
+							.maybeSingle()
+					: Promise.resolve({ data: null, error: null }),
+				supabase
+					.from('boards')
+					.select('slug, title, max_message_length')
+					.eq('id', noteData.board_id)
+					.maybeSingle(),
+				fetchSessionReactions(sessionId, [noteData.id]),
+			]);
+
+			if (parentResult.error) throw parentResult.error;
+			if (boardResult.error) throw boardResult.error;
+
+			setNote({
+				...noteData,
+				my_reactions: myReactions.get(noteData.id) || [],
+			});
+			setParentShortId(parentResult.data?.short_id ?? null);
+			setBoard(boardResult.data);
+			setLoading(false);
+		} catch (error) {
+			console.error('Error fetching note:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to load this note. Please refresh the page.',
+				variant: 'destructive',
+			});
+			setLoading(false);
+		}
+	}, [shortId, sessionId, isRestoring, signInError, toast]);
+
+	useEffect(() => {
+		fetchNote();
+	}, [fetchNote]);
+
+	useEffect(() => {
+		if (!noteId) return;
+
+		const channel = supabase
+			.channel(`note-${noteId}`)
+			.on(
+				'postgres_changes',
+				{
+					event: '*',
+					schema: 'public',
+					table: 'notes',
+					filter: `id=eq.${noteId}`,
+				},
+				() => fetchNote()
+			)
+			.subscribe();
+
+		return () => {
+			supabase.removeChannel(channel);
+		};
+	}, [fetchNote, noteId]);
+
+	const handleReply = (noteId: string) => {
+		setEditingNote(undefined);
+		setReplyingTo(noteId);
+		setIsCreateModalOpen(true);
+	};
+	const handleEditNote = (noteToEdit: Note) => {
+		setReplyingTo(undefined);
+		setEditingNote(noteToEdit);
+		setIsCreateModalOpen(true);
+	};
+	const boardPath = board ? getBoardPath(board.slug) : '/';
+	const handleViewParent = () => {
+		if (parentShortId) navigate(`/n/${parentShortId}`);
+	};
+
+	return (
+		<div className="min-h-screen bg-geminiDark flex justify-center items-start p-6 sm:p-10">
+			<div className="relative w-full max-w-5xl bg-cork-frame bg-wood-texture bg-gradient-to-br from-cork-frameLight to-cork-frame p-4 rounded-xl shadow-2xl border-4 border-solid border-cork-frameDark">
+				<div className="shadow-[inset_0_4px_12px_rgba(0,0,0,0.6)] rounded-lg">
+					<div className="relative w-full h-full bg-cork-board bg-cork-texture bg-cover bg-center rounded-md min-h-[80vh] overflow-hidden">
+						<div className="relative z-10 bg-black/30 backdrop-blur-sm border-b border-white/20 px-8 py-6">
+							<Link
+								to={boardPath}
+								className="inline-flex items-center gap-2 text-gray-100 hover:underline"
+							>
+								<ArrowLeft size={18} />
+								{board ? `Back to ${board.title}` : 'Back to all boards'}
+							</Link>
+						</div>
+
+						<div className="relative z-0 max-w-7xl mx-auto p-8 sm:p-14">
+							{loading ? (
+								<div className="text-center py-20 text-lg text-slate-700">
+									Loading note...
+								</div>
+							) : !note ? (
+								<div className="text-center py-20">
+									<p className="text-slate-800 font-semibold text-xl mb-2">
+										This note doesn't exist anymore.
+									</p>
+									<p className="text-slate-700 mb-6">
+										It may have been deleted by its author or
+										removed by a moderator.
+									</p>
+									<Button
+										asChild
+										variant="outline"
+										className="bg-white/50 border-slate-600 text-slate-800 h-12 px-6 rounded-lg"
+									>
+										<Link to="/">Browse the boards</Link>
+									</Button>
+								</div>
+							) : (
+								<>
+									<div className="flex justify-center mb-12">
+										<SecretNote
+											note={note}
+											postNumber={1}
+											onReply={handleReply}
+											onDelete={() => navigate(boardPath)}
+											onEdit={handleEditNote}
+											onViewReplies={handleViewParent}
+										/>
+									</div>
+
+									<h2
+										className="text-xl font-bold text-gray-100 mb-6"
+										style={{
+											textShadow: '1px 1px 3px rgba(0,0,0,0.5)',
+										}}
+									>
+										{replies.length === 0
+											? 'No replies yet'
+											: `Replies (${replies.length})`}
+									</h2>
+									<ReplyThread
+										rootId={note.id}
+										replies={replies}
+										onReply={handleReply}
+										onEdit={handleEditNote}
+										onDelete={refetchReplies}
+										onContinueThread={(replyId) => {
+											const reply = replies.find(
+												(r) => r.id === replyId
+											);
+											if (reply) navigate(`/n/${reply.short_id}`);
+										}}
+									/>
+								</>
+							)}
+						</div>
+
+						{signInError && <SignInErrorBanner onRetry={retrySignIn} />}
+
+						<CreateNoteModal
+							isOpen={isCreateModalOpen}
+							onClose={() => setIsCreateModalOpen(false)}
+							onNoteCreated={() => {
+								fetchNote();
+								refetchReplies();
+							}}
+							replyingTo={replyingTo}
+							editingNote={editingNote}
+							maxMessageLength={board?.max_message_length}
+						/>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ensureSignedIn } from '@/lib/identity';
+import {
+	REACTIONS,
+	type ReactionCounts,
+	type ReactionKind,
+} from '@/lib/reactions';
+
+interface NoteReactionsProps {
+	noteId: string;
+	counts?: ReactionCounts;
+	myReactions?: ReactionKind[];
+}
+
+// Stable defaults so the sync effects below don't fire on every render
+const NO_COUNTS: ReactionCounts = {};
+const NO_REACTIONS: ReactionKind[] = [];
+
+export function NoteReactions({
+	noteId,
+	counts = NO_COUNTS,
+	myReactions = NO_REACTIONS,
+}: NoteReactionsProps) {
+	// Optimistic copies, replaced whenever fresh data arrives from the board
+	const [localCounts, setLocalCounts] = useState<ReactionCounts>(counts);
+	const [localMine, setLocalMine] = useState<ReactionKind[]>(myReactions);
+	const [isPickerOpen, setIsPickerOpen] = useState(false);
+	const { toast } = useToast();
+
+	useEffect(() => setLocalCounts(counts), [counts]);
+	useEffect(() => setLocalMine(myReactions), [myReactions]);
+
+	const applyToggle = (kind: ReactionKind, isSet: boolean) => {
+		setLocalMine((mine) =>
+			isSet ? [...mine, kind] : mine.filter((k) => k !== kind)
+		);
+		setLocalCounts((current) => ({
+			...current,
+			[kind]: Math.max(0, (current[kind] || 0) + (isSet ? 1 : -1)),
+		}));
+	};
+
+	const handleToggle = async (kind: ReactionKind) => {
+		const wasSet = localMine.includes(kind);
+		applyToggle(kind, !wasSet);
+		setIsPickerOpen(false);
+
+		try {
+			await ensureSignedIn();
+			const { data: isSet, error } = await supabase.rpc('toggle_reaction', {
+				p_note_id: noteId,
+				p_kind: kind,
+			});
+
+			if (error) throw error;
+
+			// Another tab may have toggled the same reaction in the meantime
+			if (isSet === wasSet) applyToggle(kind, isSet);
+		} catch (error) {
+			console.error('Error toggling reaction:', error);
+			applyToggle(kind, wasSet);
+			toast({
+				title: 'Error',
+				description: 'Failed to react to note. Please try again.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const visibleReactions = REACTIONS.filter(
+		({ kind }) => (localCounts[kind] || 0) > 0
+	);
+
+	return (
+		<div className="flex flex-wrap items-center gap-1 mb-3">
+			{visibleReactions.map(({ kind, emoji, label }) => (
+				<button
+					key={kind}
+					type="button"
+					onClick={() => handleToggle(kind)}
+					title={label}
+					className={cn(
+						'flex items-center gap-1 rounded-full px-2 py-0.5 text-xs border transition-colors',
+						localMine.includes(kind)
+							? 'bg-black/15 border-gray-600/40'
+							: 'bg-white/40 border-transparent hover:bg-black/10'
+					)}
+				>
+					<span>{emoji}</span>
+					<span className="text-gray-700">{localCounts[kind]}</span>
+				</button>
+			))}
+			{isPickerOpen ? (
+				<div className="flex items-center gap-0.5 rounded-full bg-white/70 px-1 shadow-sm">
+					{REACTIONS.map(({ kind, emoji, label }) => (
+						<button
+							key={kind}
+							type="button"
+							onClick={() => handleToggle(kind)}
+							title={label}
+							className="rounded-full px-1 text-base hover:scale-125 transition-transform"
+						>
+							{emoji}
+						</button>
+					))}
+				</div>
+			) : (
+				<Button
+					variant="ghost"
+					size="sm"
+					onClick={() => setIsPickerOpen(true)}
+					className="h-6 px-1.5 hover:bg-black/10 text-gray-600"
+					title="Add reaction"
+				>
+					<SmilePlus size={14} />
+				</Button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import {
+	formatRecoveryKey,
+	isCompleteRecoveryKey,
+	normalizeRecoveryKey,
+} from '@/lib/identity';
+import { ensureSignedIn } from '@/lib/identity';
+import { useToast } from '@/hooks/use-toast';
+
+interface RecoverIdentityFormProps {
+	initialKey?: string;
+	onRecovered?: (recoveredCount: number) => void;
+}
+
+export function RecoverIdentityForm({
+	initialKey = '',
+	onRecovered,
+}: RecoverIdentityFormProps) {
+	const [recoveryKey, setRecoveryKey] = useState(() =>
+		formatRecoveryKey(initialKey)
+	);
+	const [isRecovering, setIsRecovering] = useState(false);
+	const { toast } = useToast();
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!isCompleteRecoveryKey(recoveryKey)) return;
+
+		setIsRecovering(true);
+		try {
+			await ensureSignedIn();
+			const { data: recoveredCount, error } = await supabase.rpc(
+				'recover_identity',
+				{
+					p_recovery_key: normalizeRecoveryKey(recoveryKey),
+				}
+			);
+
+			if (error) {
+				if (error.message === 'invalid_recovery_key') {
+					toast({
+						title: 'Key not recognised',
+						description: error.hint,
+						variant: 'destructive',
+					});
+					return;
+				}
+				throw error;
+			}
+
+			toast({
+				title: 'Notes restored',
+				description:
+					recoveredCount === 1
+						? '1 note now belongs to this browser.'
+						: `${recoveredCount} notes now belong to this browser.`,
+			});
+			setRecoveryKey('');
+			onRecovered?.(recoveredCount);
+		} catch (error) {
+			console.error('Error recovering identity:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to restore your notes. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsRecovering(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="flex flex-col gap-4">
+			<div>
+				<Label htmlFor="recovery-key" className="mb-3 block">
+					Recovery key
+				</Label>
+				<Input
+					id="recovery-key"
+					placeholder="XXXXX-XXXXX-XXXXX-XXXXX"
+					value={recoveryKey}
+					onChange={(e) =>
+						setRecoveryKey(formatRecoveryKey(e.target.value))
+					}
+					autoComplete="off"
+					spellCheck={false}
+					maxLength={23}
+					className="h-12 rounded-lg font-mono tracking-wider"
+				/>
+			</div>
+			<p className="text-sm text-gray-500">
+				Notes you posted in this browser stay yours. Notes from the key's
+				browser move here, and that browser can no longer manage them.
+			</p>
+			<Button
+				type="submit"
+				disabled={isRecovering || !isCompleteRecoveryKey(recoveryKey)}
+				className="h-12 rounded-lg"
+			>
+				<KeyRound className="mr-2" size={18} />
+				{isRecovering ? 'Restoring...' : 'Restore my notes'}
+			</Button>
+		</form>
+	);
+}
@@ -1,30 +1,20 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
+import { ArrowLeft } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
-import { supabase } from '@/integrations/supabase/client';
-import { useToast } from '@/hooks/use-toast';
-import { SecretNote } from './SecretNote';
-
-interface Note {
-  id: string;
-  short_id: string;
-  message: string;
-  color: string;
-  	to_recipient?: string;
-  from_sender?: string;
-  	replying_to_id?: string;
-  
-  created_at: string;
-  session_id: string;
-  image_url?: string;
-  
-}
+import { Button } from '@/components/ui/button';
+import type { Note } from '@/lib/notes';
+import { toPlainText } from '@/lib/markdown';
+import { useNoteThread } from '@/hooks/use-note-thread';
+import { ReplyThread } from './ReplyThread';
 
 interface ReplyModalProps {
   isOpen: boolean;
   onClose: () => void;
   parentNoteId: string | null;
   currentSessionId: string;
+  onReply: (noteId: string) => void;
   onNoteDeleted: () => void;
+  onEditNote: (note: Note) => void;
 }
 
 export function ReplyModal({
@@ -32,57 +22,34 @@ export function ReplyModal({
   onClose,
   parentNoteId,
   currentSessionId,
+  onReply,
   onNoteDeleted,
+  onEditNote,
 }: ReplyModalProps) {
-  const [replies, setReplies] = useState<Note[]>([]);
-  const [loading, setLoading] = useState(true);
-  const { toast } = useToast();
-
-  const fetchReplies = useCallback(async () => {
-    if (!parentNoteId) {
-      setReplies([]);
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    try {
-      const { data: repliesData, error } = await (supabase as any)
-        .from('notes')
-        .select('*')
-        				.eq('replying_to_id', parentNoteId)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-
-      setReplies(repliesData || []);
-    } catch (error) {
-      console.error('Error fetching replies:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to load replies. Please try again.',
-        variant: 'destructive',
-      });
-    } finally {
-      setLoading(false);
-    }
-  }, [parentNoteId, toast]);
+  // "Continue this thread" re-roots the modal at a deeply nested reply
+  const [threadRootId, setThreadRootId] = useState(parentNoteId);
+  const [continuedFrom, setContinuedFrom] = useState<Note | null>(null);
+  const { replies, loading, refetch } = useNoteThread(threadRootId, currentSessionId);
 
   useEffect(() => {
-    fetchReplies();
+    setThreadRootId(parentNoteId);
+    setContinuedFrom(null);
+  }, [parentNoteId, isOpen]);
+
+  const handleContinueThread = (noteId: string) => {
+    setContinuedFrom(replies.find((reply) => reply.id === noteId) || null);
+    setThreadRootId(noteId);
+  };
 
-    const channel = supabase
-      .channel(`replies-for-${parentNoteId}`)
-      .on('postgres_changes',
-        { event: '*', schema: 'public', table: 'notes', filter: `replying_to_id=eq.${parentNoteId}` },
-        () => fetchReplies()
-      )
-      .subscribe();
+  const handleBackToFullThread = () => {
+    setContinuedFrom(null);
+    setThreadRootId(parentNoteId);
+  };
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [fetchReplies, parentNoteId]);
+  const handleDeleted = () => {
+    refetch();
+    onNoteDeleted();
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -93,25 +60,36 @@ export function ReplyModal({
             All replies to the selected note.
           </DialogDescription>
         </DialogHeader>
+        {threadRootId !== parentNoteId && (
+          <div className="mb-6">
+            <Button
+              variant="ghost"
+              onClick={handleBackToFullThread}
+              className="mb-2 -ml-4"
+            >
+              <ArrowLeft className="mr-2" size={16} />
+              Back to the full thread
+            </Button>
+            {continuedFrom && !continuedFrom.is_hidden && (
+              <blockquote className="border-l-4 border-gray-300 pl-4 text-sm text-gray-600 italic line-clamp-3">
+                {toPlainText(continuedFrom.message)}
+              </blockquote>
+            )}
+          </div>
+        )}
         {loading ? (
           <div className="text-center py-10">Loading replies...</div>
         ) : replies.length === 0 ? (
           <div className="text-center py-10 text-gray-600">No replies yet.</div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {replies.map((replyNote, index) => (
-              <SecretNote
-                key={replyNote.id}
-                note={replyNote}
-                postNumber={index + 1}
-                onReply={() => { /* Replies of replies not supported in this modal */ } }
-                onDelete={onNoteDeleted}
-                currentSessionId={currentSessionId}
-                onViewReplies={() => { /* Replies of replies not supported in this modal */ } }
-                image_url={replyNote.image_url}
-              />
-            ))}
-          </div>
+          <ReplyThread
+            rootId={threadRootId}
+            replies={replies}
+            onReply={onReply}
+            onEdit={onEditNote}
+            onDelete={handleDeleted}
+            onContinueThread={handleContinueThread}
+          />
         )}
       </DialogContent>
     </Dialog>
@@ -0,0 +1,149 @@
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, CornerDownRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SecretNote } from './SecretNote';
+import type { Note } from '@/lib/notes';
+import { cn } from '@/lib/utils';
+
+// Deeper branches are opened as their own thread instead of indenting further
+export const MAX_THREAD_DEPTH = 4;
+const REPLIES_PER_BATCH = 3;
+
+interface ReplyThreadProps {
+	rootId: string;
+	replies: Note[];
+	onReply: (noteId: string) => void;
+	onEdit: (note: Note) => void;
+	onDelete: () => void;
+	onContinueThread: (noteId: string) => void;
+}
+
+interface ThreadContext extends Omit<ReplyThreadProps, 'rootId' | 'replies'> {
+	repliesByParent: Map<string, Note[]>;
+	postNumbers: Map<string, number>;
+}
+
+export function ReplyThread({ rootId, replies, ...handlers }: ReplyThreadProps) {
+	const { repliesByParent, postNumbers } = useMemo(() => {
+		const repliesByParent = new Map<string, Note[]>();
+		const postNumbers = new Map<string, number>();
+		// Replies arrive oldest first, so siblings stay in posting order
+		replies.forEach((reply, index) => {
+			postNumbers.set(reply.id, index + 1);
+			const siblings = repliesByParent.get(reply.replying_to_id) || [];
+			siblings.push(reply);
+			repliesByParent.set(reply.replying_to_id, siblings);
+		});
+		return { repliesByParent, postNumbers };
+	}, [replies]);
+
+	const context: ThreadContext = { ...handlers, repliesByParent, postNumbers };
+
+	return <ReplyBranch parentId={rootId} depth={0} context={context} />;
+}
+
+interface ReplyBranchProps {
+	parentId: string;
+	depth: number;
+	context: ThreadContext;
+}
+
+function ReplyBranch({ parentId, depth, context }: ReplyBranchProps) {
+	const [visibleCount, setVisibleCount] = useState(REPLIES_PER_BATCH);
+	const children = context.repliesByParent.get(parentId) || [];
+	const remaining = children.length - visibleCount;
+
+	return (
+		<div
+			className={cn(
+				'flex flex-col gap-6',
+				depth > 0 && 'ml-3 sm:ml-8 pl-3 sm:pl-6 border-l-2 border-gray-300'
+			)}
+		>
+			{children.slice(0, visibleCount).map((reply) => (
+				<ReplyNode
+					key={reply.id}
+					reply={reply}
+					depth={depth}
+					context={context}
+				/>
+			))}
+			{remaining > 0 && (
+				<Button
+					variant="link"
+					onClick={() =>
+						setVisibleCount((count) => count + REPLIES_PER_BATCH)
+					}
+					className="self-start h-auto p-0 text-gray-600"
+				>
+					Show {remaining} more {remaining === 1 ? 'reply' : 'replies'}
+				</Button>
+			)}
+		</div>
+	);
+}
+
+interface ReplyNodeProps {
+	reply: Note;
+	depth: number;
+	context: ThreadContext;
+}
+
+function ReplyNode({ reply, depth, context }: ReplyNodeProps) {
+	const [isCollapsed, setIsCollapsed] = useState(false);
+	const hasChildren = context.repliesByParent.has(reply.id);
+	const descendantCount = reply.replies_count || 0;
+	const descendantLabel = `${descendantCount} ${
+		descendantCount === 1 ? 'reply' : 'replies'
+	}`;
+
+	return (
+		<div className="flex flex-col gap-3">
+			<SecretNote
+				// The tree itself shows the replies, so no "View Replies" button
+				note={{ ...reply, replies_count: undefined }}
+				postNumber={context.postNumbers.get(reply.id)}
+				onReply={context.onReply}
+				onDelete={context.onDelete}
+				onEdit={context.onEdit}
+				onViewReplies={() => {
+					/* The parent is right above this reply */
+				}}
+			/>
+
+			{hasChildren &&
+				(depth + 1 >= MAX_THREAD_DEPTH ? (
+					<Button
+						variant="link"
+						onClick={() => context.onContinueThread(reply.id)}
+						className="self-start h-auto p-0 text-gray-600"
+					>
+						<CornerDownRight className="mr-1" size={14} />
+						Continue this thread ({descendantLabel})
+					</Button>
+				) : (
+					<>
+						<Button
+							variant="link"
+							onClick={() => setIsCollapsed((collapsed) => !collapsed)}
+							className="self-start h-auto p-0 text-gray-600"
+						>
+							{isCollapsed ? (
+								<ChevronRight className="mr-1" size={14} />
+							) : (
+								<ChevronDown className="mr-1" size={14} />
+							)}
+							{isCollapsed ? `Show ${descendantLabel}` : 'Hide replies'}
+						</Button>
+						{!isCollapsed && (
+							<ReplyBranch
+								parentId={reply.id}
+								depth={depth + 1}
+								context={context}
+							/>
+						)}
+					</>
+				))}
+		</div>
+	);
+}
@@ -0,0 +1,28 @@
+import { Lock } from 'lucide-react';
+
+interface SealedEnvelopeProps {
+	sealedUntil: string;
+}
+
+/** Stands in for a sealed note's sender, images and message. */
+export function SealedEnvelope({ sealedUntil }: SealedEnvelopeProps) {
+	const opensAt = new Date(sealedUntil).toLocaleString();
+
+	return (
+		<div
+			className="relative my-4 h-28 overflow-hidden rounded-sm bg-amber-50 shadow-md transform -rotate-1"
+			role="img"
+			aria-label={`Sealed note, opens ${opensAt}`}
+		>
+			{/* Flap */}
+			<div className="absolute inset-x-0 top-0 h-14 bg-amber-100 shadow-sm [clip-path:polygon(0_0,100%_0,50%_100%)]" />
+			{/* Wax seal */}
+			<div className="absolute left-1/2 top-14 flex h-9 w-9 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-red-700 text-red-100 shadow">
+				<Lock size={14} />
+			</div>
+			<div className="absolute inset-x-0 bottom-2 text-center text-xs font-medium text-gray-600">
+				Opens {opensAt}
+			</div>
+		</div>
+	);
+}
@@ -1,88 +1,240 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Plus, Search } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import {
+	useInfiniteQuery,
+	useQuery,
+	useQueryClient,
+	type InfiniteData,
+} from '@tanstack/react-query';
+import {
+	ArrowLeft,
+	Eye,
+	EyeOff,
+	Infinity as InfinityIcon,
+	KeyRound,
+	LayoutGrid,
+	ListOrdered,
+	Lock,
+	Plus,
+	Search,
+	StickyNote,
+	TriangleAlert,
+	UserRound,
+	type LucideIcon,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { SecretNote } from './SecretNote';
 import { CreateNoteModal } from './CreateNoteModal';
 import { ReplyModal } from './ReplyModal';
+import { IdentityModal } from './IdentityModal';
+import { BoardInviteModal } from './BoardInviteModal';
+import { CorkboardCanvas } from './CorkboardCanvas';
+import { SignInErrorBanner } from './SignInErrorBanner';
 import { supabase } from '@/integrations/supabase/client';
+import {
+	CONTENT_WARNING_MODE_KEY,
+	CONTENT_WARNING_MODES,
+	fetchFeedNotes,
+	isHiddenByContentWarning,
+	isJustPublished,
+	type ContentWarningMode,
+	type Note,
+} from '@/lib/notes';
+import {
+	BOARD_THEMES,
+	FIRST_BOARD_PAGE,
+	fetchBoardPage,
+	fetchOwnsBoard,
+	getNextBoardPage,
+	type Board,
+	type BoardPage,
+	type BoardPageParam,
+} from '@/lib/board';
 import { useToast } from '@/hooks/use-toast';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useIdentity } from '@/hooks/use-identity';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useCorkboardNotes } from '@/hooks/use-corkboard-notes';
+import { getSearchTerms } from '@/lib/search';
+import { fetchSessionReactions } from '@/lib/reactions';
 
-interface Note {
-	id: string;
-	short_id: string;
-	message: string;
-	color: string;
-	to_recipient?: string;
-	from_sender?: string;
-	replying_to_id?: string;
-	created_at: string;
-	session_id: string;
-
-	image_url?: string;
-	replies_count?: number;
+type BoardMode = 'infinite' | 'paged';
+type BoardLayout = 'grid' | 'corkboard';
+
+// The content warning button steps through the modes in this order
+const NEXT_CONTENT_WARNING_MODE: Record<ContentWarningMode, ContentWarningMode> =
+	{ blur: 'reveal', reveal: 'hide', hide: 'blur' };
+
+const CONTENT_WARNING_ICONS: Record<ContentWarningMode, LucideIcon> = {
+	blur: TriangleAlert,
+	reveal: Eye,
+	hide: EyeOff,
+};
+
+interface SecretBoardProps {
+	board: Board;
 }
 
-export function SecretBoard() {
+export function SecretBoard({ board }: SecretBoardProps) {
 	const NOTES_PER_PAGE = 8;
+	const [boardMode, setBoardMode] = useLocalStorage<BoardMode>(
+		'secretboard_mode',
+		'infinite'
+	);
+	const isInfinite = boardMode === 'infinite';
+	const [layout, setLayout] = useLocalStorage<BoardLayout>(
+		'secretboard_layout',
+		'grid'
+	);
+	const [contentWarningMode, setContentWarningMode] =
+		useLocalStorage<ContentWarningMode>(CONTENT_WARNING_MODE_KEY, 'blur');
+	const ContentWarningIcon = CONTENT_WARNING_ICONS[contentWarningMode];
 	const [notes, setNotes] = useState<Note[]>([]);
-	const [processedNotes, setProcessedNotes] = useState<Note[]>([]);
+	const notesRef = useRef<Note[]>(notes);
 	const [loading, setLoading] = useState(true);
 	const [searchQuery, setSearchQuery] = useState('');
+	const debouncedSearchQuery = useDebounce(searchQuery.trim());
+	const isSearching = debouncedSearchQuery.length > 0;
+	// Search results are always listed in the grid
+	const showCorkboard = layout === 'corkboard' && !isSearching;
+	const highlightTerms = useMemo(
+		() => getSearchTerms(debouncedSearchQuery),
+		[debouncedSearchQuery]
+	);
 	const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
 	const [replyingTo, setReplyingTo] = useState<string | undefined>();
+	const [editingNote, setEditingNote] = useState<Note | undefined>();
 	const [isReplyModalOpen, setIsReplyModalOpen] = useState(false);
 	const [selectedNoteForReplies, setSelectedNoteForReplies] = useState<
 		string | null
 	>(null);
+	const [isIdentityModalOpen, setIsIdentityModalOpen] = useState(false);
+	const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
 	const [currentPage, setCurrentPage] = useState(0);
 	const [totalNotesCount, setTotalNotesCount] = useState(0);
-	const [sessionId] = useState(() => {
-		const stored = localStorage.getItem('secretboard_session');
-		if (stored) return stored;
-		const newSession = crypto.randomUUID();
-		localStorage.setItem('secretboard_session', newSession);
-		return newSession;
+	// Notes posted by others since the infinite list was loaded
+	const [newNotesCount, setNewNotesCount] = useState(0);
+	const loadMoreRef = useRef<HTMLDivElement>(null);
+	const { userId: sessionId, isRestoring, signInError, retrySignIn } =
+		useIdentity();
+	const corkboard = useCorkboardNotes(
+		board.id,
+		sessionId,
+		showCorkboard && !isRestoring
+	);
+	const theme = BOARD_THEMES[board.theme] ?? BOARD_THEMES.cork;
+	const { data: ownsBoard = false } = useQuery({
+		queryKey: ['owns-board', board.id, sessionId],
+		queryFn: () => fetchOwnsBoard(board.id),
+		enabled: board.is_private && !!sessionId,
 	});
+	const canInvite = board.is_private && ownsBoard;
+	const { refetch: refetchCorkboard } = corkboard;
+	const queryClient = useQueryClient();
 	const { toast } = useToast();
 
+	const boardQueryKey = useMemo(
+		() => ['board-notes', board.id, sessionId, debouncedSearchQuery],
+		[board.id, sessionId, debouncedSearchQuery]
+	);
+	const {
+		data: infiniteData,
+		error: infiniteError,
+		isPending: isInfinitePending,
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useInfiniteQuery({
+		queryKey: boardQueryKey,
+		queryFn: ({ pageParam }) =>
+			fetchBoardPage(board.id, debouncedSearchQuery, pageParam, sessionId),
+		initialPageParam: FIRST_BOARD_PAGE,
+		getNextPageParam: getNextBoardPage,
+		enabled: isInfinite && !isRestoring,
+		// A visitor who just signed in keeps seeing the notes while they are
+		// refetched with is_own and reactions filled in
+		placeholderData: (previous, previousQuery) =>
+			previousQuery?.queryKey[3] === debouncedSearchQuery
+				? previous
+				: undefined,
+		// Realtime events keep the loaded pages current
+		staleTime: Infinity,
+		refetchOnWindowFocus: false,
+	});
+
+	const scrolledNotes = useMemo(
+		() => infiniteData?.pages.flatMap((page) => page.notes) ?? [],
+		[infiniteData]
+	);
+	const visibleNotes = isInfinite ? scrolledNotes : notes;
+	notesRef.current = visibleNotes;
+	const hasShownNotes = visibleNotes.some(
+		(note) => !isHiddenByContentWarning(note, contentWarningMode)
+	);
+	const visibleNotesCount = isInfinite
+		? infiniteData?.pages[0]?.count ?? 0
+		: totalNotesCount;
+
+	useEffect(() => {
+		if (!infiniteError) return;
+		console.error('Error fetching notes:', infiniteError);
+		toast({
+			title: 'Error',
+			description: 'Failed to load notes. Please refresh the page.',
+			variant: 'destructive',
+		});
+	}, [infiniteError, toast]);
+
 	const fetchNotes = useCallback(async () => {
+		if (isInfinite || isRestoring) return;
+
 		try {
 			const from = currentPage * NOTES_PER_PAGE;
 			const to = from + NOTES_PER_PAGE - 1;
 
+			// Searching runs against the whole table (replies included) so
+			// older notes can be found, not just the ones on this page.
+			const notesQuery = isSearching
+				? supabase
+						.rpc(
+							'search_notes',
+							{
+								search_query: debouncedSearchQuery,
+								p_board_id: board.id,
+							},
+							{ count: 'exact' }
+						)
+						.range(from, to)
+						.returns<Note[]>()
+				: supabase
+						.from('notes_feed')
+						.select('*', { count: 'exact' })
+						.eq('board_id', board.id)
+						.is('replying_to_id', null)
+						.order('created_at', { ascending: false })
+						.range(from, to)
+						.returns<Note[]>();
+
 			const {
 				data: notesData,
 				error: notesError,
 				count,
-			} = await (supabase as any)
-				.from('notes')
-				.select('*', { count: 'exact' })
-				.is('replying_to_id', null)
-				.order('created_at', { ascending: false })
-				.range(from, to);
+			} = await notesQuery;
 
 			if (notesError) throw notesError;
 
-			const notesWithReplyCounts = await Promise.all(
-				(notesData || []).map(async (note: Note) => {
-					const { data: replyCountData, error: replyCountError } =
-						await (supabase as any).rpc('get_note_replies_count', {
-							note_id: note.id,
-						});
-
-					if (replyCountError) {
-						console.error(
-							`Error fetching reply count for note ${note.id}:`,
-							replyCountError
-						);
-						return { ...note, replies_count: 0 };
-					}
-					return { ...note, replies_count: replyCountData };
-				})
+			const myReactions = await fetchSessionReactions(
+				sessionId,
+				(notesData || []).map((note) => note.id)
 			);
 
-			setNotes(notesWithReplyCounts);
+			setNotes(
+				(notesData || []).map((note) => ({
+					...note,
+					my_reactions: myReactions.get(note.id) || [],
+				}))
+			);
 			setTotalNotesCount(count || 0);
 		} catch (error) {
 			console.error('Error fetching notes:', error);
@@ -94,75 +246,259 @@ export function SecretBoard() {
 		} finally {
 			setLoading(false);
 		}
-	}, [currentPage, toast]);
+	}, [
+		board.id,
+		currentPage,
+		isSearching,
+		debouncedSearchQuery,
+		sessionId,
+		isInfinite,
+		isRestoring,
+		toast,
+	]);
 
 	useEffect(() => {
 		fetchNotes();
+	}, [fetchNotes]);
+
+	// Applies a change to the notes on screen, whichever mode loaded them.
+	// In infinite mode the update runs once per loaded page.
+	const updateBoardNotes = useCallback(
+		(update: (current: Note[]) => Note[], countChange = 0) => {
+			if (!isInfinite) {
+				setNotes(update);
+				if (countChange) {
+					setTotalNotesCount((count) => Math.max(0, count + countChange));
+				}
+				return;
+			}
+			queryClient.setQueryData<InfiniteData<BoardPage, BoardPageParam>>(
+				boardQueryKey,
+				(data) =>
+					data && {
+						...data,
+						pages: data.pages.map((page) => ({
+							notes: update(page.notes),
+							count:
+								page.count === null
+									? null
+									: Math.max(0, page.count + countChange),
+						})),
+					}
+			);
+		},
+		[isInfinite, queryClient, boardQueryKey]
+	);
+
+	// Swaps in fresh copies of notes already on the board, keeping the
+	// session's own reactions which the feed doesn't know about.
+	const mergeNotes = useCallback(
+		(freshNotes: Note[]) => {
+			const freshById = new Map(freshNotes.map((note) => [note.id, note]));
+			updateBoardNotes((current) =>
+				current.map((note) =>
+					freshById.has(note.id)
+						? { ...freshById.get(note.id), my_reactions: note.my_reactions }
+						: note
+				)
+			);
+		},
+		[updateBoardNotes]
+	);
+
+	// Realtime events patch the notes on screen rather than refetching the
+	// whole page on every change to the table.
+	useEffect(() => {
+		const isOnBoard = (noteId?: string) =>
+			!!noteId && notesRef.current.some((note) => note.id === noteId);
+		const refreshNotes = (noteIds: string[]) =>
+			fetchFeedNotes(noteIds)
+				.then(mergeNotes)
+				.catch((error) =>
+					console.error('Error refreshing notes:', error)
+				);
+
+		// A new top-level note: posted just now, or a scheduled one going up.
+		// Realtime rows don't say who posted them, so the feed is asked.
+		const showNewNote = (noteId: string) => {
+			if (isSearching) return;
+
+			fetchFeedNotes([noteId])
+				.then(([note]) => {
+					// The author's own note is shown by handleNoteCreated
+					if (!note || note.is_own) return;
+
+					// Infinite mode keeps the list still and offers a banner
+					if (isInfinite) {
+						setNewNotesCount((count) => count + 1);
+						return;
+					}
+
+					setTotalNotesCount((count) => count + 1);
+					if (currentPage !== 0) return;
+
+					setNotes((current) =>
+						current.some((n) => n.id === note.id)
+							? current
+							: [{ ...note, my_reactions: [] }, ...current].slice(
+									0,
+									NOTES_PER_PAGE
+								)
+					);
+				})
+				.catch((error) => console.error('Error loading new note:', error));
+		};
+
 		const channel = supabase
-			.channel('notes-changes')
-			.on(
+			.channel(`notes-changes-${board.id}`)
+			.on<Note>(
 				'postgres_changes',
-				{ event: '*', schema: 'public', table: 'notes' },
-				fetchNotes
+				{
+					event: 'INSERT',
+					schema: 'public',
+					table: 'notes',
+					filter: `board_id=eq.${board.id}`,
+				},
+				({ new: inserted }) => {
+					if (inserted.replying_to_id) {
+						// Bumps the reply count of whichever note on the board
+						// the reply belongs to, however deep in the thread it is
+						refreshNotes(
+							isOnBoard(inserted.replying_to_id)
+								? [inserted.replying_to_id]
+								: notesRef.current.map((note) => note.id)
+						);
+						return;
+					}
+					showNewNote(inserted.id);
+				}
+			)
+			.on<Note>(
+				'postgres_changes',
+				{
+					event: 'UPDATE',
+					schema: 'public',
+					table: 'notes',
+					filter: `board_id=eq.${board.id}`,
+				},
+				({ new: updated }) => {
+					if (isOnBoard(updated.id)) {
+						refreshNotes([updated.id]);
+						return;
+					}
+					if (!updated.replying_to_id && isJustPublished(updated)) {
+						showNewNote(updated.id);
+					}
+				}
+			)
+			.on<Note>(
+				'postgres_changes',
+				{ event: 'DELETE', schema: 'public', table: 'notes' },
+				({ old: deleted }) => {
+					if (isOnBoard(deleted.id)) {
+						updateBoardNotes(
+							(current) =>
+								current.filter((note) => note.id !== deleted.id),
+							-1
+						);
+						return;
+					}
+					// Delete payloads only carry the ID (and can't be filtered
+					// by board), so a deleted reply's parent is unknown; refresh
+					// the counts of everything shown.
+					refreshNotes(notesRef.current.map((note) => note.id));
+				}
 			)
 			.subscribe();
 		return () => {
 			supabase.removeChannel(channel);
 		};
-	}, [fetchNotes]);
+	}, [
+		board.id,
+		currentPage,
+		isSearching,
+		isInfinite,
+		mergeNotes,
+		updateBoardNotes,
+	]);
 
 	useEffect(() => {
-		const notesById = new Map<string, Note>(
-			notes.map((note) => [note.id, { ...note }])
-		);
-		let currentProcessedNotes = Array.from(notesById.values()).filter(
-			(note) => !note.replying_to_id
-		);
-		currentProcessedNotes.sort(
-			(a, b) =>
-				new Date(b.created_at).getTime() -
-				new Date(a.created_at).getTime()
+		setCurrentPage(0);
+		setNewNotesCount(0);
+	}, [debouncedSearchQuery, isInfinite]);
+
+	useEffect(() => {
+		const sentinel = loadMoreRef.current;
+		if (!isInfinite || !sentinel || !hasNextPage) return;
+
+		const observer = new IntersectionObserver(
+			([entry]) => {
+				if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+			},
+			// Start loading a little before the end comes into view
+			{ rootMargin: '400px' }
 		);
-		currentProcessedNotes.forEach((note) => {
-			// Replies are now fetched directly by ReplyModal, no need to sort here
-		});
-		if (searchQuery.trim()) {
-			currentProcessedNotes = currentProcessedNotes.filter(
-				(note) =>
-					note.recipient
-						?.toLowerCase()
-						.includes(searchQuery.toLowerCase()) ||
-					note.short_id
-						.toLowerCase()
-						.includes(searchQuery.toLowerCase()) ||
-					note.message
-						.toLowerCase()
-						.includes(searchQuery.toLowerCase())
-			);
+		observer.observe(sentinel);
+		return () => observer.disconnect();
+	}, [isInfinite, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+	// Reloads what is on screen, keeping the scroll position in infinite mode
+	const refreshBoard = useCallback(() => {
+		if (showCorkboard) refetchCorkboard();
+		if (!isInfinite) {
+			fetchNotes();
+			return;
 		}
-		setProcessedNotes(currentProcessedNotes);
-	}, [notes, searchQuery]);
+		setNewNotesCount(0);
+		queryClient.invalidateQueries({ queryKey: boardQueryKey });
+	}, [
+		showCorkboard,
+		refetchCorkboard,
+		isInfinite,
+		fetchNotes,
+		queryClient,
+		boardQueryKey,
+	]);
+
+	const handleShowNewNotes = () => {
+		setNewNotesCount(0);
+		queryClient.resetQueries({ queryKey: boardQueryKey });
+		window.scrollTo({ top: 0, behavior: 'smooth' });
+	};
 
 	const handleReply = (noteId: string) => {
+		setEditingNote(undefined);
 		setReplyingTo(noteId);
 		setIsCreateModalOpen(true);
 	};
+	const handleEditNote = (note: Note) => {
+		setReplyingTo(undefined);
+		setEditingNote(note);
+		setIsCreateModalOpen(true);
+	};
 	const handleViewReplies = (noteId: string) => {
 		setSelectedNoteForReplies(noteId);
 		setIsReplyModalOpen(true);
 	};
 	const handleCreateNote = () => {
+		setEditingNote(undefined);
 		setReplyingTo(undefined);
 		setIsCreateModalOpen(true);
 	};
-	const handleNoteCreated = () => fetchNotes();
-	const handleNoteDeleted = () => fetchNotes();
+	const handleNoteCreated = () => refreshBoard();
+	const handleNoteDeleted = () => refreshBoard();
 
-	if (loading) {
+	if (
+		showCorkboard
+			? corkboard.loading
+			: isInfinite
+				? isInfinitePending
+				: loading
+	) {
 		return (
 			<div className="min-h-screen bg-gray-100 dark:bg-geminiDark flex items-center justify-center">
 				<div className="text-lg text-gray-600 dark:text-gray-400">
-					Loading KADA board...
+					Loading {board.title}...
 				</div>
 			</div>
 		);
@@ -175,20 +511,39 @@ export function SecretBoard() {
 			<div className="relative w-full max-w-5xl bg-cork-frame bg-wood-texture bg-gradient-to-br from-cork-frameLight to-cork-frame p-4 rounded-xl shadow-2xl border-4 border-solid border-cork-frameDark">
 				{/* Inner shadow for frame depth */}
 				<div className="shadow-[inset_0_4px_12px_rgba(0,0,0,0.6)] rounded-lg">
-					{/* Realistic Cork Board */}
-					<div className="relative w-full h-full bg-cork-board bg-cork-texture bg-cover bg-center rounded-md min-h-[80vh] overflow-hidden">
+					{/* Board surface (cork by default) */}
+					<div
+						className={`relative w-full h-full ${theme.surfaceClassName} rounded-md min-h-[80vh] overflow-hidden`}
+					>
 						{/* Header (Navbar) */}
 						<div className="relative z-10 bg-black/30 backdrop-blur-sm border-b border-white/20 px-8 py-6">
 							<div className="max-w-7xl mx-auto flex items-center justify-between gap-6 flex-wrap">
-								<h1
-									className="text-3xl font-bold text-gray-100"
-									style={{
-										textShadow:
-											'1px 1px 3px rgba(0,0,0,0.5)',
-									}}
-								>
-									KADA's Bulletin Board
-								</h1>
+								<div>
+									<Link
+										to="/"
+										className="inline-flex items-center gap-1 text-sm text-gray-300 hover:underline mb-1"
+									>
+										<ArrowLeft size={14} />
+										All boards
+									</Link>
+									<h1
+										className="flex items-center gap-2 text-3xl font-bold text-gray-100"
+										style={{
+											textShadow:
+												'1px 1px 3px rgba(0,0,0,0.5)',
+										}}
+									>
+										{board.is_private && (
+											<Lock size={22} aria-label="Private board" />
+										)}
+										{board.title}
+									</h1>
+									{board.description && (
+										<p className="text-gray-200 mt-1 max-w-md">
+											{board.description}
+										</p>
+									)}
+								</div>
 
 								<div className="flex-1 max-w-md min-w-[250px]">
 									<div className="relative">
@@ -207,68 +562,213 @@ export function SecretBoard() {
 									</div>
 								</div>
 
+								<div className="flex items-center gap-3 shrink-0">
+									<Button
+										variant="outline"
+										onClick={() =>
+											setLayout(
+												layout === 'grid' ? 'corkboard' : 'grid'
+											)
+										}
+										className="bg-black/40 text-gray-100 border-white/30 hover:bg-black/60 hover:text-gray-100 h-12 px-4 rounded-lg"
+										title={
+											layout === 'grid'
+												? 'Switch to corkboard'
+												: 'Switch to grid'
+										}
+									>
+										{layout === 'grid' ? (
+											<StickyNote size={18} />
+										) : (
+											<LayoutGrid size={18} />
+										)}
+									</Button>
+									{!showCorkboard && (
+										<Button
+											variant="outline"
+											onClick={() =>
+												setBoardMode(isInfinite ? 'paged' : 'infinite')
+											}
+											className="bg-black/40 text-gray-100 border-white/30 hover:bg-black/60 hover:text-gray-100 h-12 px-4 rounded-lg"
+											title={
+												isInfinite
+													? 'Switch to pages'
+													: 'Switch to infinite scroll'
+											}
+										>
+											{isInfinite ? (
+												<ListOrdered size={18} />
+											) : (
+												<InfinityIcon size={18} />
+											)}
+										</Button>
+									)}
+									<Button
+										variant="outline"
+										onClick={() =>
+											setContentWarningMode(
+												NEXT_CONTENT_WARNING_MODE[contentWarningMode]
+											)
+										}
+										className="bg-black/40 text-gray-100 border-white/30 hover:bg-black/60 hover:text-gray-100 h-12 px-4 rounded-lg"
+										title={`${CONTENT_WARNING_MODES[contentWarningMode]} (click to change)`}
+									>
+										<ContentWarningIcon size={18} />
+									</Button>
+									{canInvite && (
+										<Button
+											variant="outline"
+											onClick={() => setIsInviteModalOpen(true)}
+											className="bg-black/40 text-gray-100 border-white/30 hover:bg-black/60 hover:text-gray-100 h-12 px-4 rounded-lg"
+											title="Invite people with the join code"
+										>
+											<KeyRound size={18} />
+										</Button>
+									)}
+									<Button
+										variant="outline"
+										onClick={() => setIsIdentityModalOpen(true)}
+										className="bg-black/40 text-gray-100 border-white/30 hover:bg-black/60 hover:text-gray-100 h-12 px-4 rounded-lg"
+										title="My notes and recovery key"
+									>
+										<UserRound size={18} />
+									</Button>
+									<Button
+										onClick={handleCreateNote}
+										className="bg-blue-600 hover:bg-blue-700 text-white shadow-md h-12 px-6 rounded-lg"
+									>
+										<Plus className="mr-2" size={18} />
+										New Note
+									</Button>
+								</div>
+							</div>
+						</div>
+
+						{!showCorkboard && isInfinite && newNotesCount > 0 && (
+							<div className="fixed top-6 left-1/2 -translate-x-1/2 z-50">
 								<Button
-									onClick={handleCreateNote}
-									className="shrink-0 bg-blue-600 hover:bg-blue-700 text-white shadow-md h-12 px-6 rounded-lg"
+									onClick={handleShowNewNotes}
+									className="bg-blue-600 hover:bg-blue-700 text-white shadow-lg h-10 px-5 rounded-full"
 								>
-									<Plus className="mr-2" size={18} />
-									New Note
+									{newNotesCount === 1
+										? '1 new note'
+										: `${newNotesCount} new notes`}{' '}
+									— click to show
 								</Button>
 							</div>
-						</div>
+						)}
+
+						{signInError && <SignInErrorBanner onRetry={retrySignIn} />}
 
 						{/* Notes Grid */}
-						<div className="relative z-0 max-w-7xl mx-auto p-8 sm:p-14">
-							{processedNotes.length === 0 ? (
-								<div className="text-center py-20">
-									<p className="text-slate-700 font-semibold text-xl mb-6">
-										{searchQuery
-											? 'No notes found matching your search.'
-											: 'The board is empty.'}
-									</p>
-									{!searchQuery && (
+						{showCorkboard ? (
+							<div className="relative z-0 p-4 sm:p-6">
+								<CorkboardCanvas
+									notes={corkboard.notes.filter(
+										(note) =>
+											!isHiddenByContentWarning(note, contentWarningMode)
+									)}
+									positions={corkboard.positions}
+									onMove={corkboard.moveNote}
+									onDrag={corkboard.broadcastDrag}
+									onReply={handleReply}
+									onDelete={handleNoteDeleted}
+									onEdit={handleEditNote}
+									onViewReplies={handleViewReplies}
+								/>
+							</div>
+						) : (
+							<div className="relative z-0 max-w-7xl mx-auto p-8 sm:p-14">
+								{visibleNotes.length === 0 ? (
+									<div className="text-center py-20">
+										<p
+											className={`${theme.textClassName} font-semibold text-xl mb-6`}
+										>
+											{isSearching
+												? 'No notes found matching your search.'
+												: 'The board is empty.'}
+										</p>
+										{!isSearching && (
+											<Button
+												onClick={handleCreateNote}
+												variant="outline"
+												className="bg-white/50 border-slate-600 text-slate-800 h-12 px-6 rounded-lg"
+											>
+												<Plus className="mr-2" size={18} />
+												Be the first to post a note
+											</Button>
+										)}
+									</div>
+								) : !hasShownNotes ? (
+									// Paging and infinite scroll carry on below as usual
+									<div className="text-center py-20">
+										<p
+											className={`${theme.textClassName} font-semibold text-xl mb-6`}
+										>
+											Every note here has a content warning and is hidden.
+										</p>
 										<Button
-											onClick={handleCreateNote}
+											onClick={() => setContentWarningMode('blur')}
 											variant="outline"
 											className="bg-white/50 border-slate-600 text-slate-800 h-12 px-6 rounded-lg"
 										>
-											<Plus className="mr-2" size={18} />
-											Be the first to post a note
+											<TriangleAlert className="mr-2" size={18} />
+											Show them blurred
 										</Button>
-									)}
-								</div>
-							) : (
-								// 👇 This is the section that has been changed to a Flexbox grid
-								<div className="flex flex-wrap -mx-4">
-									{processedNotes.map((note, index) => (
-										<div
-											key={note.id}
-											className="w-full sm:w-1/2 lg:w-1/3 xl:w-1/4 px-4 mb-8"
-										>
-											<SecretNote
-												note={note}
-												postNumber={
-													totalNotesCount -
-													(currentPage *
-														NOTES_PER_PAGE +
-														index)
-												}
-												onReply={handleReply}
-												onDelete={handleNoteDeleted}
-												currentSessionId={sessionId}
-												onViewReplies={
-													handleViewReplies
-												}
-												image_url={note.image_url}
-											/>
-										</div>
-									))}
-								</div>
-							)}
-						</div>
+									</div>
+								) : (
+									// 👇 This is the section that has been changed to a Flexbox grid
+									<div className="flex flex-wrap -mx-4">
+										{visibleNotes.map((note, index) =>
+											// Skipped rather than filtered out so post numbers hold
+											isHiddenByContentWarning(
+												note,
+												contentWarningMode
+											) ? null : (
+												<div
+													key={note.id}
+													className="w-full sm:w-1/2 lg:w-1/3 xl:w-1/4 px-4 mb-8"
+												>
+													<SecretNote
+														note={note}
+														postNumber={
+															isInfinite
+																? visibleNotesCount - index
+																: totalNotesCount -
+																	(currentPage *
+																		NOTES_PER_PAGE +
+																		index)
+														}
+														onReply={handleReply}
+														onDelete={handleNoteDeleted}
+														onEdit={handleEditNote}
+														onViewReplies={
+															handleViewReplies
+														}
+														highlightTerms={highlightTerms}
+													/>
+												</div>
+											)
+										)}
+									</div>
+								)}
+							</div>
+						)}
+
+						{/* Infinite scroll: loads the next page as this comes into view */}
+						{!showCorkboard && isInfinite && visibleNotes.length > 0 && (
+							<div
+								ref={loadMoreRef}
+								className={`text-center ${theme.textClassName} pb-10`}
+							>
+								{isFetchingNextPage
+									? 'Loading more notes...'
+									: !hasNextPage && "You've reached the end of the board."}
+							</div>
+						)}
 
 						{/* Pagination Controls */}
-						{processedNotes.length > 0 && (
+						{!showCorkboard && !isInfinite && notes.length > 0 && (
 							<div className="flex justify-center gap-4 mt-8">
 								<Button
 									onClick={() =>
@@ -287,7 +787,7 @@ export function SecretBoard() {
 									}
 									disabled={
 										currentPage * NOTES_PER_PAGE +
-											processedNotes.length >=
+											notes.length >=
 										totalNotesCount
 									}
 									className="bg-blue-600 hover:bg-blue-700 text-white shadow-md h-12 px-6 rounded-lg"
@@ -303,15 +803,32 @@ export function SecretBoard() {
 							onClose={() => setIsCreateModalOpen(false)}
 							onNoteCreated={handleNoteCreated}
 							replyingTo={replyingTo}
-							sessionId={sessionId}
+							editingNote={editingNote}
+							boardId={board.id}
+							maxMessageLength={board.max_message_length}
 						/>
 						<ReplyModal
 							isOpen={isReplyModalOpen}
 							onClose={() => setIsReplyModalOpen(false)}
 							parentNoteId={selectedNoteForReplies}
 							currentSessionId={sessionId}
+							onReply={handleReply}
 							onNoteDeleted={handleNoteDeleted}
+							onEditNote={handleEditNote}
+						/>
+						<IdentityModal
+							isOpen={isIdentityModalOpen}
+							onClose={() => setIsIdentityModalOpen(false)}
+							onRecovered={refreshBoard}
+							userId={sessionId}
 						/>
+						{canInvite && (
+							<BoardInviteModal
+								isOpen={isInviteModalOpen}
+								onClose={() => setIsInviteModalOpen(false)}
+								board={board}
+							/>
+						)}
 					</div>
 				</div>
 			</div>
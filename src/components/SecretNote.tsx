@@ -1,33 +1,50 @@
-import { useState } from 'react';
-import { Heart, Reply, Trash2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import {
+	CalendarClock,
+	Flag,
+	Link2,
+	Eye,
+	MailOpen,
+	Pencil,
+	Reply,
+	Trash2,
+	TriangleAlert,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ImageViewerModal } from './ImageViewerModal';
+import { HighlightedText } from './HighlightedText';
+import { NoteMarkdown } from './NoteMarkdown';
+import { NoteReactions } from './NoteReactions';
+import { NoteCountdown } from './NoteCountdown';
+import { SealedEnvelope } from './SealedEnvelope';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
+import {
+	getNotePermalink,
+	getNoteRotation,
+	isEditedNote,
+	isScheduledNote,
+	isWithinEditWindow,
+	reportNote,
+	RateLimitError,
+	CONTENT_WARNING_MODE_KEY,
+	type ContentWarningMode,
+	type Note,
+} from '@/lib/notes';
+import { ensureSignedIn } from '@/lib/identity';
 import { useToast } from '@/hooks/use-toast';
-
-interface Note {
-	id: string;
-	short_id: string;
-	message: string;
-	color: string;
-	to_recipient?: string;
-	from_sender?: string;
-	replying_to_id?: string;
-	created_at: string;
-	session_id: string;
-	image_url?: string;
-	replies_count?: number;
-}
+import { useLocalStorage } from '@/hooks/use-local-storage';
 
 interface SecretNoteProps {
 	note: Note;
 	postNumber: number;
 	onReply: (noteId: string) => void;
 	onDelete: () => void;
-	currentSessionId: string;
+	onEdit?: (note: Note) => void;
 	onViewReplies: (noteId: string) => void;
-	image_url?: string;
+	highlightTerms?: string[];
+	/** Tilt in degrees; defaults to one derived from the note ID. */
+	rotation?: number;
 }
 
 const getNoteColorClass = (color: string) => {
@@ -44,32 +61,89 @@ const getNoteColorClass = (color: string) => {
 	return colorMap[color] || 'bg-note-yellow';
 };
 
+const JUST_OPENED_MS = 8000;
+
+const COVERED_CLASS_NAME = 'blur-md select-none pointer-events-none';
+
+function RevealOverlay({
+	label,
+	onReveal,
+}: {
+	label: string;
+	onReveal: () => void;
+}) {
+	return (
+		<button
+			type="button"
+			onClick={onReveal}
+			className="absolute inset-0 flex flex-col items-center justify-center gap-1 text-xs font-semibold text-gray-700"
+		>
+			<Eye size={16} />
+			{label} · tap to reveal
+		</button>
+	);
+}
+
 export function SecretNote({
 	note,
 	postNumber,
 	onReply,
 	onDelete,
-	currentSessionId,
+	onEdit,
 	onViewReplies,
-	image_url,
+	highlightTerms,
+	rotation,
 }: SecretNoteProps) {
 	const [isImageViewerOpen, setIsImageViewerOpen] = useState(false);
-	const [selectedImage, setSelectedImage] = useState<string | undefined>(undefined);
+	const [selectedImageIndex, setSelectedImageIndex] = useState(0);
 	const [isDeleting, setIsDeleting] = useState(false);
+	const [isReporting, setIsReporting] = useState(false);
+	const [hasReported, setHasReported] = useState(false);
+	const [isJustOpened, setIsJustOpened] = useState(false);
+	const [isRevealed, setIsRevealed] = useState(false);
+	const [contentWarningMode] = useLocalStorage<ContentWarningMode>(
+		CONTENT_WARNING_MODE_KEY,
+		'blur'
+	);
+	const wasSealedRef = useRef(note.is_sealed);
 	const { toast } = useToast();
 
-	const isOwnNote = note.session_id === currentSessionId;
+	const attachments = note.attachments || [];
+	const isCovered = contentWarningMode !== 'reveal' && !isRevealed;
+	const isContentCovered = isCovered && !!note.content_warning;
+	const isImageCovered =
+		isCovered && !isContentCovered && !!note.has_sensitive_image;
+	const isOwnNote = !!note.is_own;
+	const canEdit =
+		isOwnNote &&
+		!note.is_hidden &&
+		!note.is_sealed &&
+		!!onEdit &&
+		isWithinEditWindow(note);
+
+	// A sealed note opens on screen when the realtime update for it arrives
+	useEffect(() => {
+		const wasSealed = wasSealedRef.current;
+		wasSealedRef.current = note.is_sealed;
+		if (!wasSealed || note.is_sealed) return;
+
+		setIsJustOpened(true);
+		const timeout = window.setTimeout(
+			() => setIsJustOpened(false),
+			JUST_OPENED_MS
+		);
+		return () => window.clearTimeout(timeout);
+	}, [note.is_sealed]);
 
 	const handleDelete = async () => {
 		if (!isOwnNote) return;
+		if (!window.confirm('Delete this note? This cannot be undone.')) return;
 
 		setIsDeleting(true);
 		try {
-			const { error } = await (supabase as any)
-				.from('notes')
-				.delete()
-				.eq('id', note.id)
-				.eq('session_id', currentSessionId);
+			const { error } = await supabase.rpc('delete_own_note', {
+				p_note_id: note.id,
+			});
 
 			if (error) throw error;
 
@@ -90,69 +164,242 @@ export function SecretNote({
 		}
 	};
 
+	const handleCopyLink = async () => {
+		try {
+			await navigator.clipboard.writeText(getNotePermalink(note.short_id));
+			toast({
+				title: 'Link copied',
+				description: 'Share it to point someone straight at this note.',
+			});
+		} catch (error) {
+			console.error('Error copying note link:', error);
+			toast({
+				title: 'Error',
+				description: 'Could not copy the link to your clipboard.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const handleReport = async () => {
+		if (isOwnNote || hasReported) return;
+
+		setIsReporting(true);
+		try {
+			await ensureSignedIn();
+			const isNewReport = await reportNote(note.id);
+
+			setHasReported(true);
+			toast({
+				title: isNewReport ? 'Note reported' : 'Already reported',
+				description: isNewReport
+					? 'Thanks, a moderator will take a look.'
+					: 'You have already reported this note.',
+			});
+		} catch (error) {
+			if (error instanceof RateLimitError) {
+				toast({
+					title: 'Too many reports',
+					description: error.hint,
+					variant: 'destructive',
+				});
+				return;
+			}
+			console.error('Error reporting note:', error);
+			toast({
+				title: 'Error',
+				description: 'Failed to report note. Please try again.',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsReporting(false);
+		}
+	};
+
 	return (
 		<div
 			className={cn(
 				'relative p-7 rounded-lg shadow-lg transform rotate-1 hover:rotate-0 transition-all duration-300 cursor-pointer group',
 				'border-l-4 border-t border-r border-b border-opacity-20 border-gray-600',
 				'min-h-[220px] max-w-[300px] break-words',
-				getNoteColorClass(note.color)
+				note.is_hidden ? 'bg-gray-200' : getNoteColorClass(note.color)
 			)}
-			style={{ transform: `rotate(${Math.random() * 6 - 3}deg)` }}
+			style={{
+				transform: `rotate(${rotation ?? getNoteRotation(note.id)}deg)`,
+			}}
 		>
 			{/* Pin */}
 			<div className="absolute -top-2 left-1/2 transform -translate-x-1/2 w-4 h-4 bg-cork-pin rounded-full shadow-md"></div>
 
 			{/* Post Number */}
-			<div className="text-xs font-mono text-gray-600 mb-3">
-				Post #{postNumber}
+			<div className="flex items-center justify-between text-xs font-mono text-gray-600 mb-3">
+				<span>Post #{postNumber}</span>
+				<span className="opacity-70">
+					<HighlightedText text={note.short_id} terms={highlightTerms} />
+				</span>
 			</div>
 
-			{/* Recipient */}
-			{note.to_recipient && (
-				<div className="text-sm font-semibold text-gray-700 mb-3">
-					To: {note.to_recipient}
+			{(isScheduledNote(note) || note.expires_at || isJustOpened) && (
+				<div className="flex flex-wrap gap-2 mb-3">
+					{isScheduledNote(note) && (
+						<span
+							className="inline-flex items-center gap-1 rounded-full bg-black/10 px-2 py-0.5 text-xs font-medium text-gray-700"
+							title="Only you can see this note until then"
+						>
+							<CalendarClock size={12} />
+							Goes up {new Date(note.created_at).toLocaleString()}
+						</span>
+					)}
+					{note.expires_at && <NoteCountdown expiresAt={note.expires_at} />}
+					{isJustOpened && (
+						<span className="inline-flex items-center gap-1 rounded-full bg-red-700/90 px-2 py-0.5 text-xs font-medium text-red-50 animate-in fade-in slide-in-from-top-1 duration-500">
+							<MailOpen size={12} />
+							Just opened
+						</span>
+					)}
 				</div>
 			)}
 
-			{/* Sender */}
-			{note.from_sender && (
-				<div className="text-sm font-semibold text-gray-700 mb-3">
-					From: {note.from_sender}
-				</div>
-			)}
+			{note.is_hidden ? (
+				<p className="text-gray-500 text-sm italic leading-relaxed mb-4">
+					{note.held_reason
+						? `Held for review: ${note.held_reason}`
+						: 'This note was hidden pending review.'}
+				</p>
+			) : (
+				<>
+					{/* Recipient */}
+					{note.to_recipient && (
+						<div className="text-sm font-semibold text-gray-700 mb-3">
+							To:{' '}
+							<HighlightedText
+								text={note.to_recipient}
+								terms={highlightTerms}
+							/>
+						</div>
+					)}
 
-			{/* Image */}
-			{note.image_url && (
-				<div className="bg-white p-2 shadow-md my-4 transform -rotate-2">
-					<img
-						src={image_url}
-						alt="Note image"
-						className="w-full h-auto cursor-pointer"
-						onClick={() => {
-							setSelectedImage(image_url);
-							setIsImageViewerOpen(true);
-						}}
-					/>
-				</div>
+					{/* Content warning */}
+					{note.content_warning && (
+						<div className="flex items-center gap-1 rounded bg-amber-200/70 px-2 py-1 text-xs font-semibold text-amber-900 mb-3">
+							<TriangleAlert size={12} className="shrink-0" />
+							<span>
+								CW:{' '}
+								<HighlightedText
+									text={note.content_warning}
+									terms={highlightTerms}
+								/>
+							</span>
+						</div>
+					)}
+
+					{note.is_sealed ? (
+						<SealedEnvelope sealedUntil={note.sealed_until} />
+					) : (
+						<div
+							className={cn(
+								'relative',
+								isJustOpened && 'animate-in fade-in zoom-in-95 duration-1000'
+							)}
+						>
+							<div
+								className={cn(isContentCovered && COVERED_CLASS_NAME)}
+								aria-hidden={isContentCovered}
+							>
+								{/* Sender */}
+								{note.from_sender && (
+									<div className="text-sm font-semibold text-gray-700 mb-3">
+										From:{' '}
+										<HighlightedText
+											text={note.from_sender}
+											terms={highlightTerms}
+										/>
+									</div>
+								)}
+
+								{/* Images */}
+								{attachments.length > 0 && (
+									<div className="relative">
+										<div
+											className={cn(
+												'bg-white p-2 shadow-md my-4 transform -rotate-2 grid gap-1',
+												attachments.length > 1 && 'grid-cols-2',
+												isImageCovered && COVERED_CLASS_NAME
+											)}
+											aria-hidden={isImageCovered}
+										>
+											{attachments.map((attachment, index) => (
+												<img
+													key={attachment.url}
+													src={attachment.thumbnail_url || attachment.url}
+													alt={`Note image ${index + 1}`}
+													loading="lazy"
+													className={cn(
+														'w-full cursor-pointer',
+														attachments.length === 1
+															? 'h-auto'
+															: 'aspect-square object-cover',
+														// Three images: a wide one on top, two below
+														attachments.length === 3 &&
+															index === 0 &&
+															'col-span-2 aspect-[2/1]'
+													)}
+													onClick={() => {
+														setSelectedImageIndex(index);
+														setIsImageViewerOpen(true);
+													}}
+												/>
+											))}
+										</div>
+										{isImageCovered && (
+											<RevealOverlay
+												label="Sensitive image"
+												onReveal={() => setIsRevealed(true)}
+											/>
+										)}
+									</div>
+								)}
+
+								{/* Message */}
+								<p className="text-gray-800 text-sm leading-relaxed mb-4 font-handwriting">
+									<NoteMarkdown text={note.message} terms={highlightTerms} />
+								</p>
+							</div>
+							{isContentCovered && (
+								<RevealOverlay
+									label="Content warning"
+									onReveal={() => setIsRevealed(true)}
+								/>
+							)}
+						</div>
+					)}
+				</>
 			)}
 
-			{/* Message */}
-			<p className="text-gray-800 text-sm leading-relaxed mb-4 font-handwriting">
-				{note.message}
-			</p>
+			{/* Reactions */}
+			{!note.is_hidden && (
+				<NoteReactions
+					noteId={note.id}
+					counts={note.reaction_counts}
+					myReactions={note.my_reactions}
+				/>
+			)}
 
 			{/* Reply indicator */}
 			{note.replying_to_id && (
-				<div className="text-xs text-gray-500 mb-3 italic">
+				<button
+					type="button"
+					onClick={() => onViewReplies(note.replying_to_id)}
+					className="block text-xs text-gray-500 mb-3 italic hover:underline"
+				>
 					↳ Reply to Note
-				</div>
+				</button>
 			)}
 
 			{/* Actions */}
 			<div className="flex items-center justify-between pt-4 border-t border-gray-300 border-opacity-30 mt-auto">
 				<div className="flex items-center gap-2">
-					{!note.replying_to_id && (
+					{!note.is_hidden && (
 						<Button
 							variant="ghost"
 							size="sm"
@@ -162,9 +409,55 @@ export function SecretNote({
 							<Reply size={14} />
 						</Button>
 					)}
+					{!note.is_hidden && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={handleCopyLink}
+							className="h-8 px-2 hover:bg-black/10"
+							title="Copy link"
+						>
+							<Link2 size={14} />
+						</Button>
+					)}
 				</div>
 
 				<div className="flex items-center gap-1">
+					{canEdit && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => onEdit(note)}
+							className="h-8 px-2 hover:bg-black/10"
+							title="Edit note"
+						>
+							<Pencil size={14} />
+						</Button>
+					)}
+					{isOwnNote && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={handleDelete}
+							disabled={isDeleting}
+							className="h-8 px-2 hover:bg-black/10"
+							title="Delete note"
+						>
+							<Trash2 size={14} />
+						</Button>
+					)}
+					{!isOwnNote && !note.is_hidden && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={handleReport}
+							disabled={isReporting || hasReported}
+							className="h-8 px-2 hover:bg-black/10"
+							title="Report note"
+						>
+							<Flag size={14} />
+						</Button>
+					)}
 					{note.replies_count !== undefined && (
 						<Button
 							variant="ghost"
@@ -181,13 +474,23 @@ export function SecretNote({
 			{/* Timestamp */}
 			<div className="text-xs text-gray-500 mt-2">
 				{new Date(note.created_at).toLocaleDateString()}
+				{isEditedNote(note) && (
+					<span
+						className="italic"
+						title={`Edited ${new Date(note.updated_at).toLocaleString()}`}
+					>
+						{' '}
+						· edited
+					</span>
+				)}
 			</div>
 
-			{selectedImage && (
+			{attachments.length > 0 && (
 				<ImageViewerModal
 					isOpen={isImageViewerOpen}
 					onClose={() => setIsImageViewerOpen(false)}
-					imageUrl={selectedImage}
+					images={attachments.map((attachment) => attachment.url)}
+					initialIndex={selectedImageIndex}
 				/>
 			)}
 		</div>
@@ -0,0 +1,31 @@
+import { Button } from '@/components/ui/button';
+
+interface SignInErrorBannerProps {
+	onRetry: () => void;
+}
+
+/**
+ * Shown when the browser couldn't sign in. Notes can still be read, but
+ * posting, reacting and reporting need a session.
+ */
+export function SignInErrorBanner({ onRetry }: SignInErrorBannerProps) {
+	return (
+		<div
+			role="alert"
+			className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-full bg-red-600 text-white shadow-lg py-2 pl-5 pr-2 text-sm"
+		>
+			<span>
+				Couldn't connect you to the board. You can read notes, but not post,
+				react or report.
+			</span>
+			<Button
+				size="sm"
+				variant="secondary"
+				onClick={onRetry}
+				className="rounded-full"
+			>
+				Try again
+			</Button>
+		</div>
+	);
+}
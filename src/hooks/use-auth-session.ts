@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react"
+import type { Session } from "@supabase/supabase-js"
+
+import { supabase } from "@/integrations/supabase/client"
+
+export function useAuthSession() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setLoading(false)
+    })
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession)
+      setLoading(false)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [])
+
+  return { session, loading }
+}
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+
+import { supabase } from "@/integrations/supabase/client"
+import {
+  CORKBOARD_NOTE_LIMIT,
+  clampToCorkboard,
+  fetchNotePositions,
+  getDefaultPosition,
+  type NotePosition,
+} from "@/lib/corkboard"
+import { fetchFeedNotes, isJustPublished, type Note } from "@/lib/notes"
+import { fetchSessionReactions } from "@/lib/reactions"
+import { useToast } from "@/hooks/use-toast"
+
+// Drag previews are broadcast at most this often while a note is held
+const DRAG_BROADCAST_INTERVAL_MS = 50
+
+interface DragPreview {
+  note_id: string
+  x: number
+  y: number
+}
+
+/**
+ * Loads a board's newest top-level notes with their corkboard positions and keeps
+ * both live: saved moves arrive through postgres_changes, and notes being
+ * dragged by someone else are previewed through broadcast messages.
+ */
+export function useCorkboardNotes(
+  boardId: string,
+  sessionId: string | null,
+  enabled: boolean
+) {
+  const [notes, setNotes] = useState<Note[]>([])
+  const [positions, setPositions] = useState(new Map<string, NotePosition>())
+  const [loading, setLoading] = useState(true)
+  const notesRef = useRef<Note[]>(notes)
+  notesRef.current = notes
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const lastBroadcastRef = useRef(0)
+  const { toast } = useToast()
+
+  const fetchCorkboard = useCallback(async () => {
+    if (!enabled) return
+
+    try {
+      const { data, error } = await supabase
+        .from("notes_feed")
+        .select("*")
+        .eq("board_id", boardId)
+        .is("replying_to_id", null)
+        .order("created_at", { ascending: false })
+        .limit(CORKBOARD_NOTE_LIMIT)
+        .returns<Note[]>()
+
+      if (error) throw error
+
+      const noteIds = (data || []).map((note) => note.id)
+      const [myReactions, notePositions] = await Promise.all([
+        fetchSessionReactions(sessionId, noteIds),
+        fetchNotePositions(noteIds),
+      ])
+
+      setNotes(
+        (data || []).map((note) => ({
+          ...note,
+          my_reactions: myReactions.get(note.id) || [],
+        }))
+      )
+      setPositions(notePositions)
+    } catch (error) {
+      console.error("Error fetching corkboard:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load the corkboard. Please refresh the page.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [boardId, sessionId, enabled, toast])
+
+  useEffect(() => {
+    fetchCorkboard()
+  }, [fetchCorkboard])
+
+  const setPosition = useCallback((position: NotePosition) => {
+    setPositions((current) => new Map(current).set(position.note_id, position))
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const isOnBoard = (noteId?: string) =>
+      !!noteId && notesRef.current.some((note) => note.id === noteId)
+    const refreshNotes = (noteIds: string[]) =>
+      fetchFeedNotes(noteIds)
+        .then((freshNotes) => {
+          const freshById = new Map(freshNotes.map((note) => [note.id, note]))
+          setNotes((current) =>
+            current.map((note) =>
+              freshById.has(note.id)
+                ? { ...freshById.get(note.id), my_reactions: note.my_reactions }
+                : note
+            )
+          )
+        })
+        .catch((error) => console.error("Error refreshing notes:", error))
+
+    const pinNewNote = (noteId: string) =>
+      fetchFeedNotes([noteId])
+        .then(([note]) => {
+          if (!note) return
+          setNotes((current) =>
+            current.some((n) => n.id === note.id)
+              ? current
+              : [{ ...note, my_reactions: [] }, ...current].slice(0, CORKBOARD_NOTE_LIMIT)
+          )
+        })
+        .catch((error) => console.error("Error loading new note:", error))
+
+    const channel = supabase
+      .channel(`corkboard-${boardId}`)
+      .on<NotePosition>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "note_positions" },
+        (payload) => {
+          // Positions can't be filtered by board, so other boards' arrive too
+          if (payload.eventType !== "DELETE" && isOnBoard(payload.new.note_id)) {
+            setPosition(payload.new)
+          }
+        }
+      )
+      .on<Note>(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notes",
+          filter: `board_id=eq.${boardId}`,
+        },
+        ({ new: inserted }) => {
+          if (inserted.replying_to_id) {
+            if (isOnBoard(inserted.replying_to_id)) refreshNotes([inserted.replying_to_id])
+            return
+          }
+          pinNewNote(inserted.id)
+        }
+      )
+      .on<Note>(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "notes",
+          filter: `board_id=eq.${boardId}`,
+        },
+        ({ new: updated }) => {
+          if (isOnBoard(updated.id)) refreshNotes([updated.id])
+          else if (!updated.replying_to_id && isJustPublished(updated)) pinNewNote(updated.id)
+        }
+      )
+      .on<Note>(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "notes" },
+        ({ old: deleted }) => {
+          if (isOnBoard(deleted.id)) {
+            setNotes((current) => current.filter((note) => note.id !== deleted.id))
+            return
+          }
+          refreshNotes(notesRef.current.map((note) => note.id))
+        }
+      )
+      .on("broadcast", { event: "note-drag" }, ({ payload }) => {
+        // Anyone on the channel can send these, so only notes pinned here
+        // move, and only within the canvas
+        const preview = payload as DragPreview
+        if (!isOnBoard(preview.note_id)) return
+        const { x, y } = clampToCorkboard(preview.x, preview.y)
+        setPositions((current) => {
+          const position =
+            current.get(preview.note_id) ?? getDefaultPosition(preview.note_id)
+          return new Map(current).set(preview.note_id, { ...position, x, y })
+        })
+      })
+      .subscribe()
+
+    channelRef.current = channel
+    return () => {
+      channelRef.current = null
+      supabase.removeChannel(channel)
+    }
+  }, [boardId, enabled, setPosition])
+
+  /** Shares an in-progress drag with other viewers, throttled. */
+  const broadcastDrag = useCallback((noteId: string, x: number, y: number) => {
+    const now = Date.now()
+    if (!channelRef.current || now - lastBroadcastRef.current < DRAG_BROADCAST_INTERVAL_MS) {
+      return
+    }
+    lastBroadcastRef.current = now
+    channelRef.current.send({
+      type: "broadcast",
+      event: "note-drag",
+      payload: { note_id: noteId, x, y } satisfies DragPreview,
+    })
+  }, [])
+
+  /** Saves where the author dropped a note, showing it there right away. */
+  const moveNote = useCallback(
+    async (position: NotePosition) => {
+      setPosition(position)
+      try {
+        const { data: zIndex, error } = await supabase.rpc("move_note", {
+          p_note_id: position.note_id,
+          p_x: position.x,
+          p_y: position.y,
+          p_rotation: position.rotation,
+        })
+
+        if (error) throw error
+        setPosition({ ...position, z_index: zIndex })
+      } catch (error) {
+        console.error("Error moving note:", error)
+        toast({
+          title: "Error",
+          description: "Failed to move the note. Please try again.",
+          variant: "destructive",
+        })
+        fetchCorkboard()
+      }
+    },
+    [setPosition, toast, fetchCorkboard]
+  )
+
+  return { notes, positions, loading, refetch: fetchCorkboard, moveNote, broadcastDrag }
+}
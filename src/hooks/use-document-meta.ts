@@ -0,0 +1,56 @@
+import { useEffect } from "react"
+
+interface DocumentMeta {
+  title: string
+  description?: string
+  image?: string
+  url?: string
+}
+
+const setMetaTag = (attribute: "name" | "property", key: string, content?: string) => {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`)
+  const previous = element?.getAttribute("content") ?? null
+
+  if (content === undefined) return () => {}
+
+  if (!element) {
+    element = document.createElement("meta")
+    element.setAttribute(attribute, key)
+    document.head.appendChild(element)
+  }
+  element.setAttribute("content", content)
+
+  return () => {
+    if (previous === null) element?.remove()
+    else element?.setAttribute("content", previous)
+  }
+}
+
+/**
+ * Sets the page title plus Open Graph / Twitter tags while the calling
+ * component is mounted, restoring the defaults from index.html afterwards.
+ * Link-preview crawlers don't run JavaScript; they are served the same tags
+ * by `api/note-preview.ts`.
+ */
+export function useDocumentMeta({ title, description, image, url }: DocumentMeta) {
+  useEffect(() => {
+    const previousTitle = document.title
+    document.title = title
+
+    const restorers = [
+      setMetaTag("name", "description", description),
+      setMetaTag("property", "og:title", title),
+      setMetaTag("property", "og:description", description),
+      setMetaTag("property", "og:image", image),
+      setMetaTag("property", "og:url", url),
+      setMetaTag("name", "twitter:title", title),
+      setMetaTag("name", "twitter:description", description),
+      setMetaTag("name", "twitter:image", image),
+    ]
+
+    return () => {
+      document.title = previousTitle
+      restorers.forEach((restore) => restore())
+    }
+  }, [title, description, image, url])
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { useAuthSession } from "@/hooks/use-auth-session"
+import { signInAnonymously } from "@/lib/identity"
+
+/**
+ * The signed-in user's ID, signing in anonymously when the browser has no
+ * Supabase session yet. The ID is also the `session_id` the database
+ * records for this visitor's notes.
+ *
+ * `userId` is null until a session is available, and the board can be read
+ * signed out in the meantime. Reads should still wait while `isRestoring`,
+ * when a saved session is being loaded, so returning visitors don't load
+ * everything twice. `signInError` is set when signing in failed;
+ * `retrySignIn` tries again.
+ */
+export function useIdentity() {
+  const { session, loading } = useAuthSession()
+  const userId = session?.user.id ?? null
+  const [signInError, setSignInError] = useState<Error | null>(null)
+
+  const retrySignIn = useCallback(() => {
+    setSignInError(null)
+    signInAnonymously().catch((error) => {
+      console.error("Error signing in anonymously:", error)
+      setSignInError(error)
+    })
+  }, [])
+
+  useEffect(() => {
+    if (loading || userId) return
+    retrySignIn()
+  }, [loading, userId, retrySignIn])
+
+  return {
+    userId,
+    isRestoring: loading,
+    signInError: userId ? null : signInError,
+    retrySignIn,
+  }
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react"
+
+// Lets every component using a key see a change made by any of them
+const LOCAL_STORAGE_EVENT = "local-storage-change"
+
+interface LocalStorageChange {
+  key: string
+  value: unknown
+}
+
+/**
+ * Like useState, but remembered in localStorage across visits. Values are
+ * stored as JSON; unreadable or missing entries fall back to the initial value.
+ * Components using the same key stay in sync.
+ */
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key)
+      return stored === null ? initialValue : (JSON.parse(stored) as T)
+    } catch {
+      return initialValue
+    }
+  })
+
+  useEffect(() => {
+    const handleChange = (event: Event) => {
+      const change = (event as CustomEvent<LocalStorageChange>).detail
+      if (change.key === key) setValue(change.value as T)
+    }
+    window.addEventListener(LOCAL_STORAGE_EVENT, handleChange)
+    return () => window.removeEventListener(LOCAL_STORAGE_EVENT, handleChange)
+  }, [key])
+
+  const setStoredValue = useCallback(
+    (next: T) => {
+      try {
+        localStorage.setItem(key, JSON.stringify(next))
+      } catch (error) {
+        console.error(`Error saving ${key} to localStorage:`, error)
+      }
+      window.dispatchEvent(
+        new CustomEvent<LocalStorageChange>(LOCAL_STORAGE_EVENT, {
+          detail: { key, value: next },
+        })
+      )
+    },
+    [key]
+  )
+
+  return [value, setStoredValue] as const
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef } from "react"
+
+import {
+  fetchNoteChallenge,
+  solveNoteChallenge,
+  type NoteProof,
+} from "@/lib/challenge"
+
+// Leaves time for the note to reach the server before the challenge expires
+const EXPIRY_MARGIN_MS = 30 * 1000
+
+/**
+ * Works on a proof-of-work challenge in the background while `enabled`, so
+ * it is usually solved by the time the note is written. `getProof` waits for
+ * the current one (starting over if it has expired); call `renew` once it
+ * has been spent.
+ */
+export function useNoteChallenge(enabled: boolean) {
+  const proofRef = useRef<Promise<NoteProof> | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const renew = useCallback(() => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    const proof = fetchNoteChallenge().then((challenge) =>
+      solveNoteChallenge(challenge, controller.signal)
+    )
+    // Failures surface through getProof
+    proof.catch(() => {})
+    proofRef.current = proof
+    return proof
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    renew()
+    return () => {
+      abortRef.current?.abort()
+      proofRef.current = null
+    }
+  }, [enabled, renew])
+
+  const getProof = useCallback(async () => {
+    const proof = await (proofRef.current ?? renew()).catch(() => renew())
+    if (proof.expiresAt - Date.now() > EXPIRY_MARGIN_MS) return proof
+    return renew()
+  }, [renew])
+
+  return { getProof, renew }
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { supabase } from "@/integrations/supabase/client"
+import type { Note } from "@/lib/notes"
+import { fetchSessionReactions } from "@/lib/reactions"
+import { useToast } from "@/hooks/use-toast"
+
+/**
+ * Loads every reply below `rootId` (at any depth) and keeps the list in
+ * sync with realtime changes to those replies and their reactions.
+ */
+export function useNoteThread(rootId: string | null, sessionId: string | null) {
+  const [replies, setReplies] = useState<Note[]>([])
+  const [loading, setLoading] = useState(true)
+  const threadIdsRef = useRef(new Set<string>())
+  const { toast } = useToast()
+
+  const fetchThread = useCallback(async () => {
+    if (!rootId) {
+      setReplies([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .rpc("get_note_thread", { p_note_id: rootId })
+        .returns<Note[]>()
+
+      if (error) throw error
+
+      const threadReplies = data || []
+      const myReactions = await fetchSessionReactions(
+        sessionId,
+        threadReplies.map((reply) => reply.id)
+      )
+
+      threadIdsRef.current = new Set([rootId, ...threadReplies.map((reply) => reply.id)])
+      setReplies(
+        threadReplies.map((reply) => ({
+          ...reply,
+          my_reactions: myReactions.get(reply.id) || [],
+        }))
+      )
+    } catch (error) {
+      console.error("Error fetching replies:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load replies. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [rootId, sessionId, toast])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchThread()
+
+    const isInThread = (noteId?: string) => !!noteId && threadIdsRef.current.has(noteId)
+
+    const channel = supabase
+      .channel(`thread-${rootId}`)
+      .on<Note>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notes" },
+        (payload) => {
+          const note = payload.eventType === "DELETE" ? payload.old : payload.new
+          if (isInThread(note.id) || isInThread(note.replying_to_id)) fetchThread()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [fetchThread, rootId])
+
+  return { replies, loading, refetch: fetchThread }
+}
@@ -34,6 +34,151 @@ export type Database = {
   }
   public: {
     Tables: {
+      banned_sessions: {
+        Row: {
+          banned_by: string | null
+          created_at: string
+          reason: string | null
+          session_id: string
+        }
+        Insert: {
+          banned_by?: string | null
+          created_at?: string
+          reason?: string | null
+          session_id: string
+        }
+        Update: {
+          banned_by?: string | null
+          created_at?: string
+          reason?: string | null
+          session_id?: string
+        }
+        Relationships: []
+      }
+      blocked_words: {
+        Row: {
+          created_at: string
+          word: string
+        }
+        Insert: {
+          created_at?: string
+          word: string
+        }
+        Update: {
+          created_at?: string
+          word?: string
+        }
+        Relationships: []
+      }
+      board_join_codes: {
+        Row: {
+          board_id: string
+          code: string
+          created_at: string
+        }
+        Insert: {
+          board_id: string
+          code: string
+          created_at?: string
+        }
+        Update: {
+          board_id?: string
+          code?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_join_codes_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: true
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      board_members: {
+        Row: {
+          board_id: string
+          joined_at: string
+          user_id: string
+        }
+        Insert: {
+          board_id: string
+          joined_at?: string
+          user_id: string
+        }
+        Update: {
+          board_id?: string
+          joined_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_members_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boards: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          filter_action: string
+          id: string
+          is_private: boolean
+          max_message_length: number
+          slug: string
+          theme: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          filter_action?: string
+          id?: string
+          is_private?: boolean
+          max_message_length?: number
+          slug: string
+          theme?: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          filter_action?: string
+          id?: string
+          is_private?: boolean
+          max_message_length?: number
+          slug?: string
+          theme?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      identity_recovery_keys: {
+        Row: {
+          created_at: string
+          key_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          key_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          key_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       likes: {
         Row: {
           created_at: string
@@ -63,44 +208,299 @@ export type Database = {
           },
         ]
       }
+      moderation_actions: {
+        Row: {
+          action: string
+          created_at: string
+          details: Json
+          id: string
+          moderator_id: string | null
+          note_id: string | null
+          session_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          details?: Json
+          id?: string
+          moderator_id?: string | null
+          note_id?: string | null
+          session_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          moderator_id?: string | null
+          note_id?: string | null
+          session_id?: string | null
+        }
+        Relationships: []
+      }
+      moderation_settings: {
+        Row: {
+          id: boolean
+          report_threshold: number
+        }
+        Insert: {
+          id?: boolean
+          report_threshold?: number
+        }
+        Update: {
+          id?: boolean
+          report_threshold?: number
+        }
+        Relationships: []
+      }
+      note_attachments: {
+        Row: {
+          created_at: string
+          id: string
+          image_url: string
+          note_id: string
+          position: number
+          thumbnail_url: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_url: string
+          note_id: string
+          position: number
+          thumbnail_url?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_url?: string
+          note_id?: string
+          position?: number
+          thumbnail_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_attachments_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_challenges: {
+        Row: {
+          difficulty: number
+          expires_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          difficulty: number
+          expires_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          difficulty?: number
+          expires_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      note_image_uploads: {
+        Row: {
+          created_at: string
+          id: string
+          image_url: string
+          note_id: string | null
+          object_path: string
+          size_bytes: number
+          thumbnail_path: string | null
+          thumbnail_url: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_url: string
+          note_id?: string | null
+          object_path: string
+          size_bytes: number
+          thumbnail_path?: string | null
+          thumbnail_url?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_url?: string
+          note_id?: string | null
+          object_path?: string
+          size_bytes?: number
+          thumbnail_path?: string | null
+          thumbnail_url?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_image_uploads_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_positions: {
+        Row: {
+          note_id: string
+          rotation: number
+          updated_at: string
+          x: number
+          y: number
+          z_index: number
+        }
+        Insert: {
+          note_id: string
+          rotation?: number
+          updated_at?: string
+          x: number
+          y: number
+          z_index?: number
+        }
+        Update: {
+          note_id?: string
+          rotation?: number
+          updated_at?: string
+          x?: number
+          y?: number
+          z_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_positions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: true
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_reactions: {
+        Row: {
+          created_at: string
+          kind: string
+          note_id: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          kind: string
+          note_id: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          kind?: string
+          note_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_reactions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notes: {
         Row: {
+          board_id: string
           color: string
+          content_warning: string | null
           created_at: string
+          expires_at: string | null
+          from_sender: string | null
+          has_sensitive_image: boolean
+          held_reason: string | null
           id: string
+          is_hidden: boolean
           likes: number
           message: string
+          opened_at: string | null
+          published_at: string | null
+          reacted_at: string | null
           replying_to_id: string | null
+          search_vector: unknown | null
+          sealed_until: string | null
           session_id: string
           short_id: string
           to_recipient: string | null
           updated_at: string
+          user_id: string | null
         }
         Insert: {
+          board_id: string
           color?: string
+          content_warning?: string | null
           created_at?: string
+          expires_at?: string | null
+          from_sender?: string | null
+          has_sensitive_image?: boolean
+          held_reason?: string | null
           id?: string
+          is_hidden?: boolean
           likes?: number
           message: string
+          opened_at?: string | null
+          published_at?: string | null
+          reacted_at?: string | null
           replying_to_id?: string | null
+          search_vector?: never
+          sealed_until?: string | null
           session_id: string
-          short_id: string
+          short_id?: string
           to_recipient?: string | null
           updated_at?: string
+          user_id?: string | null
         }
         Update: {
+          board_id?: string
           color?: string
+          content_warning?: string | null
           created_at?: string
+          expires_at?: string | null
+          from_sender?: string | null
+          has_sensitive_image?: boolean
+          held_reason?: string | null
           id?: string
+          is_hidden?: boolean
           likes?: number
           message?: string
+          opened_at?: string | null
+          published_at?: string | null
+          reacted_at?: string | null
           replying_to_id?: string | null
+          search_vector?: never
+          sealed_until?: string | null
           session_id?: string
           short_id?: string
           to_recipient?: string | null
           updated_at?: string
+          user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "notes_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notes_replying_to_id_fkey"
             columns: ["replying_to_id"]
@@ -110,23 +510,65 @@ export type Database = {
           },
         ]
       }
+      rate_limit_hits: {
+        Row: {
+          bucket: string
+          created_at: string
+          id: number
+          key: string
+        }
+        Insert: {
+          bucket: string
+          created_at?: string
+          id?: never
+          key: string
+        }
+        Update: {
+          bucket?: string
+          created_at?: string
+          id?: never
+          key?: string
+        }
+        Relationships: []
+      }
+      rate_limits: {
+        Row: {
+          bucket: string
+          max_posts: number
+          window_seconds: number
+        }
+        Insert: {
+          bucket: string
+          max_posts: number
+          window_seconds: number
+        }
+        Update: {
+          bucket?: string
+          max_posts?: number
+          window_seconds?: number
+        }
+        Relationships: []
+      }
       reports: {
         Row: {
           created_at: string
           id: string
           note_id: string
+          reporter_address: string | null
           session_id: string
         }
         Insert: {
           created_at?: string
           id?: string
           note_id: string
+          reporter_address?: string | null
           session_id: string
         }
         Update: {
           created_at?: string
           id?: string
           note_id?: string
+          reporter_address?: string | null
           session_id?: string
         }
         Relationships: [
@@ -141,13 +583,234 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      notes_feed: {
+        Row: {
+          attachments: Json | null
+          board_id: string | null
+          color: string | null
+          content_warning: string | null
+          created_at: string | null
+          expires_at: string | null
+          from_sender: string | null
+          has_sensitive_image: boolean | null
+          held_reason: string | null
+          id: string | null
+          image_thumbnail_url: string | null
+          image_url: string | null
+          is_hidden: boolean | null
+          is_own: boolean | null
+          is_sealed: boolean | null
+          message: string | null
+          published_at: string | null
+          reaction_counts: Json | null
+          replies_count: number | null
+          replying_to_id: string | null
+          report_count: number | null
+          sealed_until: string | null
+          short_id: string | null
+          to_recipient: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      can_read_board: {
+        Args: { p_board_id: string }
+        Returns: boolean
+      }
+      create_note: {
+        Args: {
+          p_board_id?: string
+          p_challenge_id?: string
+          p_color: string
+          p_content_warning?: string
+          p_expires_at?: string
+          p_from_sender?: string
+          p_has_sensitive_image?: boolean
+          p_image_urls?: string[]
+          p_message: string
+          p_nonce?: string
+          p_publish_at?: string
+          p_replying_to_id?: string
+          p_sealed_until?: string
+          p_to_recipient?: string
+        }
+        Returns: {
+          held_reason: string
+          note_id: string
+        }[]
+      }
+      delete_own_note: {
+        Args: { p_note_id: string }
+        Returns: undefined
+      }
+      edit_own_note: {
+        Args: {
+          p_color?: string
+          p_from_sender?: string
+          p_message: string
+          p_note_id: string
+          p_to_recipient?: string
+        }
+        Returns: undefined
+      }
+      find_filtered_content: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      generate_join_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       generate_short_id: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_moderation_queue: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          first_reported_at: string | null
+          from_sender: string | null
+          held_reason: string | null
+          id: string
+          image_url: string | null
+          is_hidden: boolean
+          last_reported_at: string | null
+          message: string
+          replying_to_id: string | null
+          report_count: number
+          session_banned: boolean
+          session_id: string
+          short_id: string
+          to_recipient: string | null
+        }[]
+      }
+      get_note_attachments: {
+        Args: { p_note_id: string }
+        Returns: Json
+      }
+      get_note_poster_address: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_note_replies_count: {
+        Args: { note_id: string }
+        Returns: number
+      }
+      get_note_thread: {
+        Args: { p_note_id: string }
+        Returns: Database["public"]["Views"]["notes_feed"]["Row"][]
+      }
+      has_recovery_key: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      hash_recovery_key: {
+        Args: { p_recovery_key: string }
+        Returns: string
+      }
+      hit_rate_limit: {
+        Args: { p_bucket: string; p_key: string }
+        Returns: undefined
+      }
+      is_moderator: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_session_banned: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      issue_note_challenge: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          challenge_id: string
+          difficulty: number
+          expires_at: string
+        }[]
+      }
+      join_board: {
+        Args: { p_code: string; p_slug: string }
+        Returns: string
+      }
+      mask_filtered_content: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      moderate_note: {
+        Args: { p_action: string; p_note_id: string; p_reason?: string }
+        Returns: undefined
+      }
+      move_note: {
+        Args: { p_note_id: string; p_rotation: number; p_x: number; p_y: number }
+        Returns: number
+      }
+      open_sealed_notes: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      owns_board: {
+        Args: { p_board_id: string }
+        Returns: boolean
+      }
+      owns_note: {
+        Args: { p_note_id: string }
+        Returns: boolean
+      }
+      prefix_tsquery: {
+        Args: { search_query: string }
+        Returns: unknown
+      }
+      prune_note_challenges: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      prune_rate_limit_hits: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      publish_and_expire_notes: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      recover_identity: {
+        Args: { p_recovery_key: string }
+        Returns: number
+      }
+      report_note: {
+        Args: { p_note_id: string }
+        Returns: boolean
+      }
+      revoke_board_code: {
+        Args: { p_board_id: string; p_remove_members?: boolean }
+        Returns: undefined
+      }
+      rotate_board_code: {
+        Args: { p_board_id: string; p_remove_members?: boolean }
+        Returns: string
+      }
+      search_notes: {
+        Args: { p_board_id: string; search_query: string }
+        Returns: Database["public"]["Views"]["notes_feed"]["Row"][]
+      }
+      set_recovery_key: {
+        Args: { p_recovery_key: string }
+        Returns: undefined
+      }
+      spend_note_challenge: {
+        Args: { p_challenge_id: string; p_nonce: string }
+        Returns: undefined
+      }
+      toggle_reaction: {
+        Args: { p_kind: string; p_note_id: string }
+        Returns: boolean
+      }
+      transfer_session_activity: {
+        Args: { p_from_session: string; p_to_session: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
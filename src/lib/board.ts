@@ -0,0 +1,243 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Note } from './notes';
+import { fetchSessionReactions } from './reactions';
+
+export const BOARD_PAGE_SIZE = 12;
+
+export type BoardThemeName = 'cork' | 'chalk' | 'slate' | 'sky' | 'rose';
+
+/** What the content filter does with a note that trips it. */
+export type BoardFilterAction = 'reject' | 'mask' | 'hold';
+
+export interface Board {
+	id: string;
+	slug: string;
+	title: string;
+	description: string | null;
+	theme: BoardThemeName;
+	/** Only readable by members, who join with the board's code. */
+	is_private: boolean;
+	/** Longest message, markup included, a note on this board can have. */
+	max_message_length: number;
+	filter_action: BoardFilterAction;
+	created_at: string;
+}
+
+interface BoardTheme {
+	label: string;
+	/** Background of the board surface inside the wooden frame. */
+	surfaceClassName: string;
+	/** Text drawn straight onto the surface, like the empty-board message. */
+	textClassName: string;
+	/** Preview color for the theme picker and directory cards. */
+	swatch: string;
+}
+
+/** Must match the `theme` check on the `boards` table. */
+export const BOARD_THEMES: Record<BoardThemeName, BoardTheme> = {
+	cork: {
+		label: 'Cork',
+		surfaceClassName: 'bg-cork-board bg-cork-texture bg-cover bg-center',
+		textClassName: 'text-slate-700',
+		swatch: '#C8A165',
+	},
+	chalk: {
+		label: 'Chalkboard',
+		surfaceClassName: 'bg-emerald-900',
+		textClassName: 'text-emerald-50',
+		swatch: '#064E3B',
+	},
+	slate: {
+		label: 'Slate',
+		surfaceClassName: 'bg-slate-700',
+		textClassName: 'text-slate-100',
+		swatch: '#334155',
+	},
+	sky: {
+		label: 'Sky',
+		surfaceClassName: 'bg-sky-200',
+		textClassName: 'text-sky-900',
+		swatch: '#BAE6FD',
+	},
+	rose: {
+		label: 'Rose',
+		surfaceClassName: 'bg-rose-200',
+		textClassName: 'text-rose-900',
+		swatch: '#FECDD3',
+	},
+};
+
+/** The board every note posted before boards existed was moved to. */
+export const DEFAULT_BOARD_SLUG = 'kada';
+
+export const getBoardPath = (slug: string) => `/b/${slug}`;
+
+/** Must match the `slug` check on the `boards` table. */
+export const BOARD_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Limits offered when creating a board; see the `max_message_length` check. */
+export const BOARD_MESSAGE_LENGTHS = [150, 280, 500, 1000];
+
+export const DEFAULT_MAX_MESSAGE_LENGTH = 150;
+
+/** Must match the `filter_action` check on the `boards` table. */
+export const BOARD_FILTER_ACTIONS: Record<BoardFilterAction, string> = {
+	reject: 'Refuse the note',
+	mask: 'Blank out what tripped it',
+	hold: 'Hold it for a moderator',
+};
+
+/** Letters and digits a join code is made of; see `generate_join_code`. */
+export const normalizeJoinCode = (code: string) =>
+	code.toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+export const JOIN_CODE_LENGTH = 8;
+
+/** Invite links carry the code in the hash, so it never reaches server logs. */
+export const getBoardInviteLink = (slug: string, code: string) =>
+	`${window.location.origin}${getBoardPath(slug)}#${code}`;
+
+/** Suggests a slug for a new board from its title. */
+export const toBoardSlug = (title: string) =>
+	title
+		.toLowerCase()
+		.normalize('NFKD')
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, 48)
+		.replace(/-+$/, '');
+
+const BOARD_COLUMNS =
+	'id, slug, title, description, theme, is_private, max_message_length, filter_action, created_at';
+
+export async function fetchBoards(): Promise<Board[]> {
+	const { data, error } = await supabase
+		.from('boards')
+		.select(BOARD_COLUMNS)
+		.order('created_at', { ascending: true })
+		.returns<Board[]>();
+
+	if (error) throw error;
+	return data || [];
+}
+
+export async function fetchBoardBySlug(slug: string): Promise<Board | null> {
+	const { data, error } = await supabase
+		.from('boards')
+		.select(BOARD_COLUMNS)
+		.eq('slug', slug)
+		.returns<Board[]>()
+		.maybeSingle();
+
+	if (error) throw error;
+	return data;
+}
+
+/**
+ * Where the next infinite-scroll page starts. The board feed pages by the
+ * last note's (created_at, id), so notes posted meanwhile don't shift what
+ * comes next. Ranked search results have no such order and use the offset.
+ */
+export interface BoardPageParam {
+	offset: number;
+	cursor: { created_at: string; id: string } | null;
+}
+
+export interface BoardPage {
+	notes: Note[];
+	/** Total matching notes, only counted for the first page. */
+	count: number | null;
+}
+
+export const FIRST_BOARD_PAGE: BoardPageParam = { offset: 0, cursor: null };
+
+/** Whether the signed-in user created the board. */
+export async function fetchOwnsBoard(boardId: string): Promise<boolean> {
+	const { data, error } = await supabase.rpc('owns_board', {
+		p_board_id: boardId,
+	});
+
+	if (error) throw error;
+	return data ?? false;
+}
+
+/** The private board's current join code, or null when joining is off. */
+export async function fetchBoardJoinCode(boardId: string): Promise<string | null> {
+	const { data, error } = await supabase
+		.from('board_join_codes')
+		.select('code')
+		.eq('board_id', boardId)
+		.maybeSingle();
+
+	if (error) throw error;
+	return data?.code ?? null;
+}
+
+export async function fetchBoardPage(
+	boardId: string,
+	searchQuery: string,
+	{ offset, cursor }: BoardPageParam,
+	sessionId: string | null
+): Promise<BoardPage> {
+	const countOption = offset === 0 ? { count: 'exact' as const } : {};
+
+	let query;
+	if (searchQuery) {
+		query = supabase
+			.rpc(
+				'search_notes',
+				{ search_query: searchQuery, p_board_id: boardId },
+				countOption
+			)
+			.range(offset, offset + BOARD_PAGE_SIZE - 1)
+			.returns<Note[]>();
+	} else {
+		let feedQuery = supabase
+			.from('notes_feed')
+			.select('*', countOption)
+			.eq('board_id', boardId)
+			.is('replying_to_id', null);
+		if (cursor) {
+			// Quoted because timestamps contain PostgREST's reserved . and :
+			feedQuery = feedQuery.or(
+				`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+			);
+		}
+		query = feedQuery
+			.order('created_at', { ascending: false })
+			.order('id', { ascending: false })
+			.limit(BOARD_PAGE_SIZE)
+			.returns<Note[]>();
+	}
+
+	const { data, error, count } = await query;
+	if (error) throw error;
+
+	const notes = data || [];
+	const myReactions = await fetchSessionReactions(
+		sessionId,
+		notes.map((note) => note.id)
+	);
+
+	return {
+		notes: notes.map((note) => ({
+			...note,
+			my_reactions: myReactions.get(note.id) || [],
+		})),
+		count: count ?? null,
+	};
+}
+
+export function getNextBoardPage(
+	lastPage: BoardPage,
+	_allPages: BoardPage[],
+	lastPageParam: BoardPageParam
+): BoardPageParam | undefined {
+	if (lastPage.notes.length < BOARD_PAGE_SIZE) return undefined;
+
+	const lastNote = lastPage.notes[lastPage.notes.length - 1];
+	return {
+		offset: lastPageParam.offset + BOARD_PAGE_SIZE,
+		cursor: { created_at: lastNote.created_at, id: lastNote.id },
+	};
+}
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ensureSignedIn } from './identity';
+import type { SolveChallengeRequest } from './challenge.worker';
+
+export interface NoteChallenge {
+	challenge_id: string;
+	difficulty: number;
+	expires_at: string;
+}
+
+/** What create_note needs to accept a note. */
+export interface NoteProof {
+	challengeId: string;
+	nonce: string;
+	expiresAt: number;
+}
+
+export async function fetchNoteChallenge(): Promise<NoteChallenge> {
+	await ensureSignedIn();
+	const { data, error } = await supabase.rpc('issue_note_challenge');
+
+	if (error) throw error;
+	return data[0];
+}
+
+/**
+ * Solves a challenge in a Web Worker. Aborting the signal stops the worker
+ * and rejects with an AbortError.
+ */
+export function solveNoteChallenge(
+	challenge: NoteChallenge,
+	signal?: AbortSignal
+): Promise<NoteProof> {
+	return new Promise((resolve, reject) => {
+		const worker = new Worker(
+			new URL('./challenge.worker.ts', import.meta.url),
+			{ type: 'module' }
+		);
+		const stop = () => {
+			worker.terminate();
+			reject(new DOMException('Challenge abandoned', 'AbortError'));
+		};
+
+		if (signal?.aborted) return stop();
+		signal?.addEventListener('abort', stop, { once: true });
+
+		worker.addEventListener('message', (event: MessageEvent<string>) => {
+			signal?.removeEventListener('abort', stop);
+			worker.terminate();
+			resolve({
+				challengeId: challenge.challenge_id,
+				nonce: event.data,
+				expiresAt: new Date(challenge.expires_at).getTime(),
+			});
+		});
+		worker.addEventListener('error', (event) => {
+			signal?.removeEventListener('abort', stop);
+			worker.terminate();
+			reject(event.error ?? new Error(event.message));
+		});
+
+		const request: SolveChallengeRequest = {
+			challengeId: challenge.challenge_id,
+			difficulty: challenge.difficulty,
+		};
+		worker.postMessage(request);
+	});
+}
@@ -0,0 +1,42 @@
+// Looks for a nonce whose SHA-256 of '<challenge id>:<nonce>' starts with
+// `difficulty` zero bits, off the main thread so typing stays smooth.
+// Self-contained, so the worker bundle doesn't pull in the app.
+
+export interface SolveChallengeRequest {
+	challengeId: string;
+	difficulty: number;
+}
+
+// Hashes in flight at once; crypto.subtle has no synchronous digest
+const BATCH_SIZE = 256;
+
+const hasLeadingZeroBits = (hash: Uint8Array, bits: number) => {
+	let index = 0;
+	for (; bits >= 8; bits -= 8, index++) {
+		if (hash[index] !== 0) return false;
+	}
+	return bits === 0 || hash[index] >> (8 - bits) === 0;
+};
+
+const solve = async ({ challengeId, difficulty }: SolveChallengeRequest) => {
+	const encoder = new TextEncoder();
+
+	for (let start = 0; ; start += BATCH_SIZE) {
+		const hashes = await Promise.all(
+			Array.from({ length: BATCH_SIZE }, (_, i) =>
+				crypto.subtle.digest(
+					'SHA-256',
+					encoder.encode(`${challengeId}:${start + i}`)
+				)
+			)
+		);
+		const index = hashes.findIndex((hash) =>
+			hasLeadingZeroBits(new Uint8Array(hash), difficulty)
+		);
+		if (index !== -1) return String(start + index);
+	}
+};
+
+addEventListener('message', async (event: MessageEvent<SolveChallengeRequest>) => {
+	postMessage(await solve(event.data));
+});
@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getNoteRotation, hashNoteId } from './notes';
+
+/** Size of the pannable corkboard canvas, in canvas pixels. */
+export const CORKBOARD_WIDTH = 3200;
+export const CORKBOARD_HEIGHT = 2000;
+/** Matches SecretNote's max width, so notes stay inside the canvas. */
+export const CORKBOARD_NOTE_WIDTH = 300;
+const CORKBOARD_NOTE_HEIGHT = 360;
+
+/** How many of the newest top-level notes get pinned to the corkboard. */
+export const CORKBOARD_NOTE_LIMIT = 60;
+
+export interface NotePosition {
+	note_id: string;
+	x: number;
+	y: number;
+	rotation: number;
+	z_index: number;
+}
+
+/**
+ * Where a note sits before its author has moved it: scattered across the
+ * canvas by its ID, so every viewer sees the same layout.
+ */
+export const getDefaultPosition = (noteId: string): NotePosition => {
+	const hash = hashNoteId(noteId);
+	return {
+		note_id: noteId,
+		x: hash % (CORKBOARD_WIDTH - CORKBOARD_NOTE_WIDTH),
+		y: (hash >>> 12) % (CORKBOARD_HEIGHT - CORKBOARD_NOTE_HEIGHT),
+		rotation: getNoteRotation(noteId),
+		z_index: 0,
+	};
+};
+
+export const clampToCorkboard = (x: number, y: number) => ({
+	x: Math.min(CORKBOARD_WIDTH - CORKBOARD_NOTE_WIDTH, Math.max(0, x)),
+	y: Math.min(CORKBOARD_HEIGHT - CORKBOARD_NOTE_HEIGHT, Math.max(0, y)),
+});
+
+export async function fetchNotePositions(
+	noteIds: string[]
+): Promise<Map<string, NotePosition>> {
+	if (noteIds.length === 0) return new Map();
+
+	const { data, error } = await supabase
+		.from('note_positions')
+		.select('note_id, x, y, rotation, z_index')
+		.in('note_id', noteIds);
+
+	if (error) throw error;
+	return new Map((data || []).map((position) => [position.note_id, position]));
+}
@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+
+let pendingSignIn: Promise<string> | null = null;
+
+/**
+ * Signs the browser in as an anonymous Supabase user and resolves with its
+ * ID. Concurrent callers share one request so a page with several
+ * components only creates one user.
+ */
+export function signInAnonymously(): Promise<string> {
+	if (!pendingSignIn) {
+		pendingSignIn = supabase.auth
+			.signInAnonymously()
+			.then(({ data, error }) => {
+				if (error) throw error;
+				return data.user.id;
+			})
+			.finally(() => {
+				pendingSignIn = null;
+			});
+	}
+	return pendingSignIn;
+}
+
+/**
+ * The signed-in user's ID, signing in first if needed. Reading the board
+ * works signed out; anything written as the visitor awaits this.
+ */
+export async function ensureSignedIn(): Promise<string> {
+	const {
+		data: { session },
+	} = await supabase.auth.getSession();
+	return session?.user.id ?? signInAnonymously();
+}
+
+// Crockford base32: no I, L, O or U, so keys survive being read aloud
+const RECOVERY_KEY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_KEY_LENGTH = 20;
+const RECOVERY_KEY_GROUP = 5;
+
+/** Random key of 20 base32 characters (100 bits), grouped as XXXXX-XXXXX-… */
+export function generateRecoveryKey(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_LENGTH));
+	const chars = Array.from(bytes, (byte) => RECOVERY_KEY_ALPHABET[byte % 32]);
+	return formatRecoveryKey(chars.join(''));
+}
+
+/**
+ * Uppercases a typed or pasted key, drops separators and maps look-alike
+ * letters back to the digits the alphabet uses.
+ */
+export function normalizeRecoveryKey(input: string): string {
+	return input
+		.toUpperCase()
+		.replace(/[^0-9A-Z]/g, '')
+		.replace(/[IL]/g, '1')
+		.replace(/O/g, '0');
+}
+
+export function formatRecoveryKey(key: string): string {
+	const normalized = normalizeRecoveryKey(key);
+	const groups = normalized.match(new RegExp(`.{1,${RECOVERY_KEY_GROUP}}`, 'g'));
+	return groups ? groups.join('-') : '';
+}
+
+export function isCompleteRecoveryKey(key: string): boolean {
+	return normalizeRecoveryKey(key).length === RECOVERY_KEY_LENGTH;
+}
+
+/** Link encoded in the QR code. The key rides in the hash so it never reaches a server log. */
+export function getRecoveryLink(key: string): string {
+	return `${window.location.origin}/recover#${normalizeRecoveryKey(key)}`;
+}
@@ -0,0 +1,144 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Longest edge, in pixels, of the image opened in the viewer
+const MAX_IMAGE_DIMENSION = 1600;
+// Longest edge of the thumbnail shown on the polaroid
+const MAX_THUMBNAIL_DIMENSION = 400;
+const IMAGE_QUALITY = 0.82;
+const THUMBNAIL_QUALITY = 0.7;
+
+export const ACCEPTED_IMAGE_TYPES = 'image/png, image/jpeg, image/webp, image/gif';
+
+export interface PreparedImage {
+	full: Blob;
+	thumbnail: Blob;
+	extension: string;
+}
+
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+	try {
+		// Applies the EXIF orientation before the metadata is thrown away
+		return await createImageBitmap(file, { imageOrientation: 'from-image' });
+	} catch {
+		throw new Error('unsupported_image');
+	}
+};
+
+const canvasToBlob = (
+	canvas: HTMLCanvasElement,
+	type: string,
+	quality: number
+): Promise<Blob | null> =>
+	new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Draws the image onto a canvas no larger than maxDimension and encodes it
+ * as WebP, falling back to JPEG on browsers that can't encode WebP (they
+ * hand back a PNG instead). Canvas output carries no EXIF or GPS data.
+ */
+const encodeImage = async (
+	image: ImageBitmap,
+	maxDimension: number,
+	quality: number
+): Promise<Blob> => {
+	const ratio = Math.min(1, maxDimension / Math.max(image.width, image.height));
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.max(1, Math.round(image.width * ratio));
+	canvas.height = Math.max(1, Math.round(image.height * ratio));
+
+	const context = canvas.getContext('2d');
+	// Transparent PNGs would otherwise turn black as JPEG
+	context.fillStyle = '#ffffff';
+	context.fillRect(0, 0, canvas.width, canvas.height);
+	context.imageSmoothingQuality = 'high';
+	context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+	const webp = await canvasToBlob(canvas, 'image/webp', quality);
+	if (webp?.type === 'image/webp') return webp;
+
+	const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+	if (!jpeg) throw new Error('unsupported_image');
+	return jpeg;
+};
+
+/**
+ * Re-encodes a picked photo for upload: downscaled, metadata stripped and
+ * paired with a small thumbnail. Throws `unsupported_image` when the
+ * browser can't decode the file.
+ */
+export async function prepareImageForUpload(file: File): Promise<PreparedImage> {
+	const image = await decodeImage(file);
+	try {
+		const full = await encodeImage(image, MAX_IMAGE_DIMENSION, IMAGE_QUALITY);
+		const thumbnail = await encodeImage(
+			image,
+			MAX_THUMBNAIL_DIMENSION,
+			THUMBNAIL_QUALITY
+		);
+		return {
+			full,
+			thumbnail,
+			extension: full.type === 'image/webp' ? 'webp' : 'jpg',
+		};
+	} finally {
+		image.close();
+	}
+}
+
+export type ImageUploadErrorCode =
+	| 'file_too_large'
+	| 'unsupported_type'
+	| 'quota_exceeded'
+	| 'banned'
+	| 'upload_failed';
+
+export class ImageUploadError extends Error {
+	constructor(public code: ImageUploadErrorCode) {
+		super(code);
+		this.name = 'ImageUploadError';
+	}
+}
+
+export interface UploadedImage {
+	image_url: string;
+	image_thumbnail_url: string;
+}
+
+/**
+ * Sends a prepared image to the upload-note-image Edge Function, which
+ * validates it and picks the storage key. Pass the returned image_url when
+ * inserting the note.
+ */
+export async function uploadNoteImage(
+	image: PreparedImage
+): Promise<UploadedImage> {
+	const body = new FormData();
+	body.append('image', image.full, `image.${image.extension}`);
+	body.append('thumbnail', image.thumbnail, `thumbnail.${image.extension}`);
+
+	const { data, error } = await supabase.functions.invoke<UploadedImage>(
+		'upload-note-image',
+		{ body }
+	);
+
+	if (error) {
+		if (error instanceof FunctionsHttpError) {
+			const { error: code } = await error.context
+				.json()
+				.catch(() => ({ error: null }));
+			if (
+				code === 'file_too_large' ||
+				code === 'unsupported_type' ||
+				code === 'quota_exceeded' ||
+				code === 'banned'
+			) {
+				throw new ImageUploadError(code);
+			}
+		}
+		console.error('Error uploading image:', error);
+		throw new ImageUploadError('upload_failed');
+	}
+
+	return data;
+}
@@ -0,0 +1,145 @@
+/**
+ * The small markdown subset notes are written in: **bold**, *italic* (or
+ * _italic_), ~~strikethrough~~, ||spoilers||, line breaks and >>shortId
+ * references to other notes. Messages are parsed into nodes and rendered as
+ * React elements, never as HTML, so nothing a note says can inject markup.
+ * The module has no imports, so api/note-preview.ts can share it.
+ */
+export type MarkdownNode =
+	| { type: 'text'; text: string }
+	| { type: 'break' }
+	| { type: 'note_link'; shortId: string }
+	| {
+			type: 'bold' | 'italic' | 'strike' | 'spoiler';
+			children: MarkdownNode[];
+	  };
+
+type StyleType = 'bold' | 'italic' | 'strike' | 'spoiler';
+
+// Longest first, so ** is not read as two italic markers
+const DELIMITERS: { marker: string; type: StyleType }[] = [
+	{ marker: '**', type: 'bold' },
+	{ marker: '~~', type: 'strike' },
+	{ marker: '||', type: 'spoiler' },
+	{ marker: '*', type: 'italic' },
+	{ marker: '_', type: 'italic' },
+];
+
+const NOTE_LINK_PATTERN = /^>>([A-Za-z0-9_-]{4,16})/;
+
+const ESCAPABLE = new Set(['\\', '*', '_', '~', '|', '>']);
+
+const isWordChar = (char: string | undefined) =>
+	!!char && /[\p{L}\p{N}]/u.test(char);
+
+const isSpace = (char: string | undefined) => !char || /\s/.test(char);
+
+// Where the marker opened at `from` closes, or -1. Closing markers can't
+// follow a space, and an underscore inside a word (snake_case) isn't one.
+const findClosing = (text: string, marker: string, from: number) => {
+	for (let i = from; i < text.length; i++) {
+		if (text[i] === '\\') {
+			i++;
+			continue;
+		}
+		// A ** inside an italic span belongs to a bold one
+		if (marker === '*' && text.startsWith('**', i)) {
+			i++;
+			continue;
+		}
+		if (!text.startsWith(marker, i) || isSpace(text[i - 1])) continue;
+		if (marker === '_' && isWordChar(text[i + 1])) continue;
+		return i;
+	}
+	return -1;
+};
+
+export function parseMarkdown(text: string): MarkdownNode[] {
+	const nodes: MarkdownNode[] = [];
+	let buffer = '';
+
+	const flush = () => {
+		if (buffer) nodes.push({ type: 'text', text: buffer });
+		buffer = '';
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+
+		if (char === '\\' && ESCAPABLE.has(text[i + 1])) {
+			buffer += text[i + 1];
+			i += 2;
+			continue;
+		}
+
+		if (char === '\n') {
+			flush();
+			nodes.push({ type: 'break' });
+			i++;
+			continue;
+		}
+
+		if (char === '>' && !isWordChar(text[i - 1])) {
+			const match = NOTE_LINK_PATTERN.exec(text.slice(i));
+			if (match) {
+				flush();
+				nodes.push({ type: 'note_link', shortId: match[1] });
+				i += match[0].length;
+				continue;
+			}
+		}
+
+		const delimiter = DELIMITERS.find(({ marker }) =>
+			text.startsWith(marker, i)
+		);
+		if (
+			delimiter &&
+			!isSpace(text[i + delimiter.marker.length]) &&
+			!(delimiter.marker === '_' && isWordChar(text[i - 1]))
+		) {
+			const start = i + delimiter.marker.length;
+			const end = findClosing(text, delimiter.marker, start + 1);
+			if (end !== -1) {
+				flush();
+				nodes.push({
+					type: delimiter.type,
+					children: parseMarkdown(text.slice(start, end)),
+				});
+				i = end + delimiter.marker.length;
+				continue;
+			}
+		}
+
+		buffer += char;
+		i++;
+	}
+
+	flush();
+	return nodes;
+}
+
+const toPlain = (nodes: MarkdownNode[]): string =>
+	nodes
+		.map((node) => {
+			switch (node.type) {
+				case 'text':
+					return node.text;
+				case 'break':
+					return ' ';
+				case 'note_link':
+					return `>>${node.shortId}`;
+				case 'spoiler':
+					return '[spoiler]';
+				default:
+					return toPlain(node.children);
+			}
+		})
+		.join('');
+
+/** The message without markup, for previews; spoilers stay hidden. */
+export const toPlainText = (text: string) => toPlain(parseMarkdown(text));
+
+/** One-line cheat sheet shown under the note editor. */
+export const MARKDOWN_HINT =
+	'**bold**  *italic*  ~~strike~~  ||spoiler||  >>note-id';
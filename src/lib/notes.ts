@@ -0,0 +1,253 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { ReactionCounts, ReactionKind } from './reactions';
+
+/** Must match the position check on `note_attachments`. */
+export const MAX_NOTE_ATTACHMENTS = 4;
+
+export interface NoteAttachment {
+	url: string;
+	/** Missing on images posted before thumbnails were generated. */
+	thumbnail_url: string | null;
+}
+
+/**
+ * A note as the board renders it. Rows come from the `notes_feed` view,
+ * which blanks out the content of hidden notes, or from `search_notes`.
+ */
+export interface Note {
+	id: string;
+	short_id: string;
+	board_id: string;
+	message: string;
+	color: string;
+	to_recipient?: string;
+	from_sender?: string;
+	replying_to_id?: string;
+	created_at: string;
+	updated_at?: string;
+	/** Whether the signed-in user posted this note. */
+	is_own?: boolean;
+	/** First attachment, kept for link previews. */
+	image_url?: string;
+	image_thumbnail_url?: string;
+	/** Images in display order, at most MAX_NOTE_ATTACHMENTS. */
+	attachments?: NoteAttachment[];
+	is_hidden?: boolean;
+	replies_count?: number;
+	report_count?: number;
+	reaction_counts?: ReactionCounts;
+	/** Reactions the current session has left on this note. */
+	my_reactions?: ReactionKind[];
+	/** Null while scheduled; only the author sees the note until then. */
+	published_at?: string | null;
+	expires_at?: string | null;
+	/** When a sealed note opens; its content is withheld until then. */
+	sealed_until?: string | null;
+	/** Only the envelope and the To: line are sent while this is set. */
+	is_sealed?: boolean;
+	/** Shown in place of the content until the viewer reveals it. */
+	content_warning?: string | null;
+	/** Blurs the images even when the note has no content warning. */
+	has_sensitive_image?: boolean;
+	/** Why the content filter held the note; only sent to its author. */
+	held_reason?: string | null;
+}
+
+/** How a viewer wants notes with a content warning shown. */
+export type ContentWarningMode = 'blur' | 'reveal' | 'hide';
+
+export const CONTENT_WARNING_MODE_KEY = 'secretboard_content_warnings';
+
+export const CONTENT_WARNING_MODES: Record<ContentWarningMode, string> = {
+	blur: 'Blur notes with content warnings',
+	reveal: 'Always reveal notes with content warnings',
+	hide: 'Hide notes with content warnings',
+};
+
+/** Whether the board leaves a note out for this viewer; never their own. */
+export const isHiddenByContentWarning = (
+	note: Note,
+	mode: ContentWarningMode
+) => mode === 'hide' && !!note.content_warning && !note.is_own;
+
+export const getNotePermalink = (shortId: string) =>
+	`${window.location.origin}/n/${shortId}`;
+
+/** Must match the window enforced by the `edit_own_note` RPC. */
+export const NOTE_EDIT_WINDOW_MS = 10 * 60 * 1000;
+
+export const isWithinEditWindow = (note: Note, now = Date.now()) =>
+	now - new Date(note.created_at).getTime() < NOTE_EDIT_WINDOW_MS;
+
+// updated_at is set in the same statement as created_at on insert, so
+// anything more than a second apart means the author edited the note.
+export const isEditedNote = (note: Note) =>
+	!!note.updated_at &&
+	new Date(note.updated_at).getTime() -
+		new Date(note.created_at).getTime() >
+		1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Preset lifetimes offered when posting a note. */
+export const NOTE_EXPIRY_OPTIONS = [
+	{ label: '1 hour', ms: HOUR_MS },
+	{ label: '1 day', ms: 24 * HOUR_MS },
+	{ label: '1 week', ms: 7 * 24 * HOUR_MS },
+];
+
+/** Limits enforced by the `schedule_note` trigger. */
+export const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * HOUR_MS;
+export const MIN_NOTE_LIFETIME_MS = 5 * 60 * 1000;
+
+/** Limit enforced by the `seal_note` trigger. */
+export const MAX_SEAL_MS = 365 * 24 * HOUR_MS;
+
+export const isScheduledNote = (note: Note) => note.published_at === null;
+
+// The publish job runs every minute; a note it published longer ago than
+// this was already on the board before the update arrived.
+const JUST_PUBLISHED_MS = 2 * 60 * 1000;
+
+/** Whether a realtime update is a scheduled note going up. */
+export const isJustPublished = (row: { published_at?: string | null }) =>
+	!!row.published_at &&
+	Date.now() - new Date(row.published_at).getTime() < JUST_PUBLISHED_MS;
+
+/** "3d 4h", "5h 12m", "4m 09s": the two largest units of a duration. */
+export const formatTimeLeft = (ms: number) => {
+	const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+	const days = Math.floor(totalSeconds / 86400);
+	const hours = Math.floor((totalSeconds % 86400) / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+
+	if (days > 0) return `${days}d ${hours}h`;
+	if (hours > 0) return `${hours}h ${minutes}m`;
+	return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+};
+
+// FNV-1a, so the same note always gets the same tilt and scatter position
+export const hashNoteId = (id: string) => {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < id.length; i++) {
+		hash ^= id.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+};
+
+/** A tilt between -3 and 3 degrees that stays put across re-renders. */
+export const getNoteRotation = (id: string) =>
+	(hashNoteId(id) % 601) / 100 - 3;
+
+/**
+ * Re-reads a handful of notes from the feed, used to patch the board after
+ * a realtime event instead of refetching the whole page.
+ */
+export async function fetchFeedNotes(noteIds: string[]): Promise<Note[]> {
+	if (noteIds.length === 0) return [];
+
+	const { data, error } = await supabase
+		.from('notes_feed')
+		.select('*')
+		.in('id', noteIds)
+		.returns<Note[]>();
+
+	if (error) throw error;
+	return data || [];
+}
+
+export type CreateNoteParams =
+	Database['public']['Functions']['create_note']['Args'];
+
+export interface PostedNote {
+	note_id: string;
+	held_reason: string | null;
+}
+
+const NOTE_POST_ERROR_CODES = [
+	'invalid_image_upload',
+	'too_many_attachments',
+	'message_too_long',
+	'note_rejected',
+	'invalid_schedule',
+	'rate_limited',
+	'challenge_failed',
+] as const;
+
+export type NotePostErrorCode = (typeof NOTE_POST_ERROR_CODES)[number];
+
+/** A note the server refused, with a hint to show the poster. */
+export class NotePostError extends Error {
+	constructor(
+		public code: NotePostErrorCode,
+		public hint: string | null
+	) {
+		super(code);
+		this.name = 'NotePostError';
+	}
+}
+
+/** A posting limit was hit; `retryAfter` is in seconds. */
+export class RateLimitError extends NotePostError {
+	constructor(
+		hint: string | null,
+		public retryAfter: number
+	) {
+		super('rate_limited', hint);
+		this.name = 'RateLimitError';
+	}
+}
+
+/**
+ * Creates a note through the post-note Edge Function, which calls
+ * create_note as the current user with the poster's address attached for
+ * the per-IP posting limit. create_note can't be called directly.
+ */
+export async function postNote(params: CreateNoteParams): Promise<PostedNote> {
+	const { data, error } = await supabase.functions.invoke<PostedNote>(
+		'post-note',
+		{ body: params }
+	);
+
+	if (error) {
+		if (error instanceof FunctionsHttpError) {
+			const body = await error.context.json().catch(() => ({}));
+			if (body.error === 'rate_limited') {
+				throw new RateLimitError(body.hint ?? null, body.retry_after ?? 60);
+			}
+			if (NOTE_POST_ERROR_CODES.includes(body.error)) {
+				throw new NotePostError(body.error, body.hint ?? null);
+			}
+		}
+		throw error;
+	}
+
+	return data;
+}
+
+/**
+ * Reports a note through the report-note Edge Function, which passes the
+ * reporter's address to report_note so one person counts once however many
+ * sessions they use. Resolves to false if this session already reported it.
+ */
+export async function reportNote(noteId: string): Promise<boolean> {
+	const { data, error } = await supabase.functions.invoke<{
+		reported: boolean;
+	}>('report-note', { body: { p_note_id: noteId } });
+
+	if (error) {
+		if (error instanceof FunctionsHttpError) {
+			const body = await error.context.json().catch(() => ({}));
+			if (body.error === 'rate_limited') {
+				throw new RateLimitError(body.hint ?? null, body.retry_after ?? 60);
+			}
+		}
+		throw error;
+	}
+
+	return data.reported;
+}
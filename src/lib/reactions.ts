@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** Must match the CHECK constraint on `note_reactions.kind`. */
+export const REACTIONS = [
+	{ kind: 'heart', emoji: '❤️', label: 'Love' },
+	{ kind: 'laugh', emoji: '😂', label: 'Haha' },
+	{ kind: 'cry', emoji: '😢', label: 'Sad' },
+	{ kind: 'wow', emoji: '😮', label: 'Wow' },
+	{ kind: 'angry', emoji: '😠', label: 'Angry' },
+	{ kind: 'fire', emoji: '🔥', label: 'Fire' },
+] as const;
+
+export type ReactionKind = (typeof REACTIONS)[number]['kind'];
+
+export type ReactionCounts = Partial<Record<ReactionKind, number>>;
+
+/**
+ * Looks up which reactions the signed-in session has left on each note,
+ * keyed by note ID. A visitor who isn't signed in yet has none, and no one
+ * can read anyone else's.
+ */
+export async function fetchSessionReactions(
+	sessionId: string | null,
+	noteIds: string[]
+): Promise<Map<string, ReactionKind[]>> {
+	const reactionsByNote = new Map<string, ReactionKind[]>();
+	if (!sessionId || noteIds.length === 0) return reactionsByNote;
+
+	const { data, error } = await supabase
+		.from('note_reactions')
+		.select('note_id, kind')
+		.eq('session_id', sessionId)
+		.in('note_id', noteIds);
+
+	if (error) throw error;
+
+	for (const { note_id, kind } of data || []) {
+		const kinds = reactionsByNote.get(note_id) || [];
+		kinds.push(kind as ReactionKind);
+		reactionsByNote.set(note_id, kinds);
+	}
+	return reactionsByNote;
+}
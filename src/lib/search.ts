@@ -0,0 +1,27 @@
+/**
+ * Splits a search query into the lowercase terms the `search_notes` RPC
+ * matches on. Mirrors `prefix_tsquery` on the database side so the terms
+ * highlighted in the UI are the ones that actually produced the match.
+ */
+export function getSearchTerms(query: string): string[] {
+	return query
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean);
+}
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a regex that matches any of the terms at the start of a word,
+ * the same way a prefix tsquery does.
+ */
+export function buildHighlightPattern(terms: string[]): RegExp | null {
+	if (terms.length === 0) return null;
+	const alternatives = [...terms]
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExp)
+		.join('|');
+	return new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives})`, 'giu');
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { SecretBoard } from '@/components/SecretBoard';
+import { BoardJoinScreen } from '@/components/BoardJoinScreen';
+import { fetchBoardBySlug } from '@/lib/board';
+import { useDocumentMeta } from '@/hooks/use-document-meta';
+import { useIdentity } from '@/hooks/use-identity';
+
+const BoardPage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Invite links carry the join code in the hash
+  const [inviteCode] = useState(() => location.hash.slice(1));
+  const { userId: sessionId, isRestoring, signInError } = useIdentity();
+  const queryClient = useQueryClient();
+  const {
+    data: board,
+    error,
+    isPending,
+    isPlaceholderData,
+  } = useQuery({
+    // Refetched once signed in: private boards are only visible to members
+    queryKey: ['board', slug, sessionId],
+    queryFn: () => fetchBoardBySlug(slug),
+    enabled: !isRestoring,
+    // Keeps a public board mounted while that happens
+    placeholderData: (previous, previousQuery) =>
+      previousQuery?.queryKey[1] === slug ? previous : undefined,
+  });
+
+  // Keep the code out of the browser history once it has been read
+  useEffect(() => {
+    if (location.hash) navigate(location.pathname, { replace: true });
+  }, [location.hash, location.pathname, navigate]);
+
+  useDocumentMeta({
+    title: board ? `${board.title} · KADA Bulletin Board` : 'KADA Bulletin Board',
+    description: board?.description ?? undefined,
+  });
+
+  const handleJoined = () => {
+    queryClient.invalidateQueries({ queryKey: ['board', slug] });
+    queryClient.invalidateQueries({ queryKey: ['boards'] });
+  };
+
+  // A private board looks missing until the sign-in finishes
+  if (
+    isPending ||
+    (!board && (isPlaceholderData || (!sessionId && !signInError)))
+  ) {
+    return (
+      <div className="min-h-screen bg-gray-100 dark:bg-geminiDark flex items-center justify-center">
+        <div className="text-lg text-gray-600 dark:text-gray-400">
+          Loading board...
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    console.error('Error fetching board:', error);
+    return (
+      <div className="min-h-screen bg-geminiDark flex items-center justify-center p-6">
+        <div className="w-full max-w-md bg-white rounded-xl shadow-2xl p-8 text-center">
+          <h1 className="text-2xl font-bold mb-2">Couldn't load this board</h1>
+          <p className="text-gray-600 mb-6">Please refresh the page to try again.</p>
+          <Link to="/" className="text-blue-500 hover:text-blue-700 underline">
+            See all boards
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!board) {
+    return (
+      <BoardJoinScreen slug={slug} initialCode={inviteCode} onJoined={handleJoined} />
+    );
+  }
+
+  // Keyed so switching boards starts from a clean slate
+  return <SecretBoard key={board.id} board={board} />;
+};
+
+export default BoardPage;
@@ -1,7 +1,7 @@
-import { SecretBoard } from '@/components/SecretBoard';
+import { BoardDirectory } from '@/components/BoardDirectory';
 
 const Index = () => {
-  return <SecretBoard />;
+  return <BoardDirectory />;
 };
 
 export default Index;
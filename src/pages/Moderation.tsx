@@ -0,0 +1,12 @@
+import { ModerationDashboard } from '@/components/ModerationDashboard';
+import { ModeratorRoute } from '@/components/ModeratorRoute';
+
+const Moderation = () => {
+  return (
+    <ModeratorRoute>
+      <ModerationDashboard />
+    </ModeratorRoute>
+  );
+};
+
+export default Moderation;
@@ -0,0 +1,9 @@
+import { useParams } from 'react-router-dom';
+import { NotePermalink } from '@/components/NotePermalink';
+
+const NotePage = () => {
+  const { shortId } = useParams<{ shortId: string }>();
+  return <NotePermalink key={shortId} shortId={shortId} />;
+};
+
+export default NotePage;
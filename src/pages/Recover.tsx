@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { RecoverIdentityForm } from '@/components/RecoverIdentityForm';
+
+const Recover = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [initialKey] = useState(() => location.hash.slice(1));
+
+  // Keep the key out of the browser history once it has been read
+  useEffect(() => {
+    if (location.hash) navigate(location.pathname, { replace: true });
+  }, [location.hash, location.pathname, navigate]);
+
+  return (
+    <div className="min-h-screen bg-geminiDark flex items-center justify-center p-6">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-2xl p-8">
+        <h1 className="text-2xl font-bold mb-2">Restore your notes</h1>
+        <p className="text-gray-600 mb-6">
+          Enter the recovery key you backed up on your other device.
+        </p>
+        <RecoverIdentityForm
+          initialKey={initialKey}
+          onRecovered={() => navigate('/')}
+        />
+        <Link
+          to="/"
+          className="block text-center text-sm text-gray-500 hover:underline mt-6"
+        >
+          Back to the boards
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Recover;
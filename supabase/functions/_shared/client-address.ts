@@ -0,0 +1,49 @@
+// The caller's address, which the database can't see, for the per-IP
+// limits. Functions pass it on hashed, and signed with a secret the
+// database shares (post_note_secret in Vault), so it can't be made up by
+// calling the RPCs directly; get_note_poster_address checks it.
+
+// cf-connecting-ip is set by Cloudflare in front of Supabase, replacing
+// whatever the client sent. Where it is missing (a local stack, or a
+// project not behind Cloudflare) the first x-forwarded-for hop is the next
+// best thing, though a client can put anything there.
+export const getClientAddress = (req: Request) =>
+	req.headers.get('cf-connecting-ip') ||
+	req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+	null;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+	Array.from(new Uint8Array(buffer), (byte) =>
+		byte.toString(16).padStart(2, '0')
+	).join('');
+
+// Only a hash of the address is stored
+const hashAddress = async (address: string) =>
+	toHex(await crypto.subtle.digest('SHA-256', encoder.encode(address)));
+
+const signAddress = async (userId: string, addressHash: string) => {
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(Deno.env.get('POST_NOTE_SECRET')!),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const signature = await crypto.subtle.sign(
+		'HMAC',
+		key,
+		encoder.encode(`${userId}:${addressHash}`)
+	);
+	return toHex(signature);
+};
+
+/** Request headers carrying the user's hashed, signed address. */
+export const addressHeaders = async (userId: string, address: string) => {
+	const addressHash = await hashAddress(address);
+	return {
+		'x-post-note-address': addressHash,
+		'x-post-note-signature': await signAddress(userId, addressHash),
+	};
+};
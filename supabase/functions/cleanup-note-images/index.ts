@@ -0,0 +1,84 @@
+// Removes uploaded images that no note uses: uploads that were never posted
+// and images of deleted notes, including expired ones (see
+// publish_and_expire_notes). Called hourly by pg_cron with the service key.
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+
+const BUCKET = 'note-images';
+// Leaves time for someone still writing the note the image belongs to
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+// Batches keep going until none are left or this runs out, well inside
+// the function's wall-clock limit; the next run picks up the rest
+const TIME_BUDGET_MS = 60 * 1000;
+
+// Removes up to one batch of orphans, returning how many there were, or
+// null when something failed (already logged)
+const removeOrphanBatch = async (
+	admin: SupabaseClient,
+	cutoff: string
+): Promise<number | null> => {
+	const { data: orphans, error } = await admin
+		.from('note_image_uploads')
+		.select('id, object_path, thumbnail_path')
+		.is('note_id', null)
+		.lt('created_at', cutoff)
+		.limit(BATCH_SIZE);
+
+	if (error) {
+		console.error('Error finding orphaned images:', error);
+		return null;
+	}
+	if (orphans.length === 0) {
+		return 0;
+	}
+
+	const paths = orphans.flatMap((upload) =>
+		upload.thumbnail_path
+			? [upload.object_path, upload.thumbnail_path]
+			: [upload.object_path]
+	);
+	const { error: removeError } = await admin.storage.from(BUCKET).remove(paths);
+	if (removeError) {
+		console.error('Error removing orphaned images:', removeError);
+		return null;
+	}
+
+	const { error: deleteError } = await admin
+		.from('note_image_uploads')
+		.delete()
+		.in(
+			'id',
+			orphans.map((upload) => upload.id)
+		);
+	if (deleteError) {
+		console.error('Error forgetting orphaned images:', deleteError);
+		return null;
+	}
+
+	return orphans.length;
+};
+
+Deno.serve(async (req) => {
+	const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+	if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+		return jsonResponse({ error: 'forbidden' }, 403);
+	}
+
+	const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+	const cutoff = new Date(Date.now() - ORPHAN_GRACE_MS).toISOString();
+	const deadline = Date.now() + TIME_BUDGET_MS;
+
+	let removed = 0;
+	while (Date.now() < deadline) {
+		const count = await removeOrphanBatch(admin, cutoff);
+		if (count === null) {
+			return jsonResponse({ error: 'server_error', removed }, 500);
+		}
+		removed += count;
+		// A short batch was the last one
+		if (count < BATCH_SIZE) break;
+	}
+
+	return jsonResponse({ removed });
+});
@@ -0,0 +1,126 @@
+// Posts a note for a signed-in (anonymous) user. The note itself is created
+// by the create_note RPC as that user, so the database still enforces the
+// board, ban and per-session limits. This function adds the poster's
+// address, which the database can't see: hashed, and signed with a secret
+// the database shares, so create_note can count it against the per-IP
+// limit and refuse notes that didn't come through here.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { addressHeaders, getClientAddress } from '../_shared/client-address.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+// Raised by create_note and its triggers with a hint meant for the poster
+const NOTE_ERRORS = new Set([
+	'invalid_image_upload',
+	'too_many_attachments',
+	'message_too_long',
+	'note_rejected',
+	'invalid_schedule',
+	'rate_limited',
+	'challenge_failed',
+]);
+
+// create_note's parameters; anything else is refused here rather than
+// failing the RPC call
+const NOTE_PARAMS = new Set([
+	'p_message',
+	'p_color',
+	'p_to_recipient',
+	'p_from_sender',
+	'p_replying_to_id',
+	'p_image_urls',
+	'p_board_id',
+	'p_publish_at',
+	'p_expires_at',
+	'p_sealed_until',
+	'p_content_warning',
+	'p_has_sensitive_image',
+	'p_challenge_id',
+	'p_nonce',
+]);
+
+interface PostgresError {
+	message: string;
+	details: string | null;
+	hint: string | null;
+}
+
+const errorResponse = (error: PostgresError) => {
+	if (error.message === 'rate_limited') {
+		return jsonResponse(
+			{
+				error: error.message,
+				hint: error.hint,
+				retry_after: Number(error.details) || 60,
+			},
+			429
+		);
+	}
+	return jsonResponse({ error: error.message, hint: error.hint }, 400);
+};
+
+Deno.serve(async (req) => {
+	if (req.method === 'OPTIONS') {
+		return new Response('ok', { headers: corsHeaders });
+	}
+	if (req.method !== 'POST') {
+		return jsonResponse({ error: 'method_not_allowed' }, 405);
+	}
+
+	const admin = createClient(
+		Deno.env.get('SUPABASE_URL')!,
+		Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+	);
+
+	const jwt = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+	const {
+		data: { user },
+	} = jwt ? await admin.auth.getUser(jwt) : { data: { user: null } };
+	if (!user) {
+		return jsonResponse({ error: 'not_signed_in' }, 401);
+	}
+
+	let params: Record<string, unknown>;
+	try {
+		params = await req.json();
+	} catch {
+		return jsonResponse({ error: 'invalid_request' }, 400);
+	}
+	if (
+		typeof params !== 'object' ||
+		params === null ||
+		Array.isArray(params) ||
+		!Object.keys(params).every((key) => NOTE_PARAMS.has(key))
+	) {
+		return jsonResponse({ error: 'invalid_request' }, 400);
+	}
+
+	// Without it the per-IP limit can't be applied, so the note is refused
+	const address = getClientAddress(req);
+	if (!address) {
+		return jsonResponse({ error: 'unknown_client_address' }, 400);
+	}
+
+	const poster = createClient(
+		Deno.env.get('SUPABASE_URL')!,
+		Deno.env.get('SUPABASE_ANON_KEY')!,
+		{
+			global: {
+				headers: {
+					Authorization: `Bearer ${jwt}`,
+					...(await addressHeaders(user.id, address)),
+				},
+			},
+		}
+	);
+
+	const { data, error } = await poster.rpc('create_note', params);
+	if (error) {
+		if (NOTE_ERRORS.has(error.message)) {
+			return errorResponse(error);
+		}
+		console.error('Error creating note:', error);
+		return jsonResponse({ error: 'server_error' }, 500);
+	}
+
+	return jsonResponse(data[0]);
+});
@@ -0,0 +1,77 @@
+// Reports a note for a signed-in (anonymous) user. Signing in anonymously
+// is free, so report_note counts reporters by address rather than by
+// session; like post-note, this function passes that address on hashed and
+// signed, and report_note refuses reports that didn't come through here.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { addressHeaders, getClientAddress } from '../_shared/client-address.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+Deno.serve(async (req) => {
+	if (req.method === 'OPTIONS') {
+		return new Response('ok', { headers: corsHeaders });
+	}
+	if (req.method !== 'POST') {
+		return jsonResponse({ error: 'method_not_allowed' }, 405);
+	}
+
+	const admin = createClient(
+		Deno.env.get('SUPABASE_URL')!,
+		Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+	);
+
+	const jwt = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+	const {
+		data: { user },
+	} = jwt ? await admin.auth.getUser(jwt) : { data: { user: null } };
+	if (!user) {
+		return jsonResponse({ error: 'not_signed_in' }, 401);
+	}
+
+	let noteId: unknown;
+	try {
+		({ p_note_id: noteId } = await req.json());
+	} catch {
+		return jsonResponse({ error: 'invalid_request' }, 400);
+	}
+	if (typeof noteId !== 'string') {
+		return jsonResponse({ error: 'invalid_request' }, 400);
+	}
+
+	const address = getClientAddress(req);
+	if (!address) {
+		return jsonResponse({ error: 'unknown_client_address' }, 400);
+	}
+
+	const reporter = createClient(
+		Deno.env.get('SUPABASE_URL')!,
+		Deno.env.get('SUPABASE_ANON_KEY')!,
+		{
+			global: {
+				headers: {
+					Authorization: `Bearer ${jwt}`,
+					...(await addressHeaders(user.id, address)),
+				},
+			},
+		}
+	);
+
+	const { data, error } = await reporter.rpc('report_note', {
+		p_note_id: noteId,
+	});
+	if (error) {
+		if (error.message === 'rate_limited') {
+			return jsonResponse(
+				{
+					error: error.message,
+					hint: error.hint,
+					retry_after: Number(error.details) || 60,
+				},
+				429
+			);
+		}
+		console.error('Error reporting note:', error);
+		return jsonResponse({ error: 'server_error' }, 500);
+	}
+
+	return jsonResponse({ reported: data });
+});
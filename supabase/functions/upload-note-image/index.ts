@@ -0,0 +1,187 @@
+// Accepts a note image and its thumbnail from a signed-in (anonymous) user,
+// checks what the files really are, and stores them under a key chosen here.
+// The returned image_url is the only kind the notes table will accept.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+const BUCKET = 'note-images';
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const MAX_THUMBNAIL_BYTES = 256 * 1024;
+const UPLOADS_PER_HOUR = 10;
+const UPLOADS_PER_DAY = 30;
+
+interface ImageType {
+	mime: string;
+	extension: string;
+	matches: (bytes: Uint8Array) => boolean;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+	signature.every((byte, i) => bytes[offset + i] === byte);
+
+const IMAGE_TYPES: ImageType[] = [
+	{
+		mime: 'image/jpeg',
+		extension: 'jpg',
+		matches: (bytes) => startsWith(bytes, [0xff, 0xd8, 0xff]),
+	},
+	{
+		mime: 'image/png',
+		extension: 'png',
+		matches: (bytes) =>
+			startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+	},
+	{
+		mime: 'image/gif',
+		extension: 'gif',
+		matches: (bytes) =>
+			startsWith(bytes, [0x47, 0x49, 0x46, 0x38]) &&
+			(bytes[4] === 0x37 || bytes[4] === 0x39) &&
+			bytes[5] === 0x61,
+	},
+	{
+		mime: 'image/webp',
+		extension: 'webp',
+		matches: (bytes) =>
+			startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) &&
+			startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8),
+	},
+];
+
+const detectImageType = async (file: File) => {
+	const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+	return IMAGE_TYPES.find((type) => type.matches(header)) ?? null;
+};
+
+const validateFile = async (file: File | null, maxBytes: number) => {
+	if (!file || file.size === 0) {
+		return { error: 'missing_file', status: 400 } as const;
+	}
+	if (file.size > maxBytes) {
+		return { error: 'file_too_large', status: 413 } as const;
+	}
+	const type = await detectImageType(file);
+	if (!type) {
+		return { error: 'unsupported_type', status: 415 } as const;
+	}
+	return { type } as const;
+};
+
+Deno.serve(async (req) => {
+	if (req.method === 'OPTIONS') {
+		return new Response('ok', { headers: corsHeaders });
+	}
+	if (req.method !== 'POST') {
+		return jsonResponse({ error: 'method_not_allowed' }, 405);
+	}
+
+	const admin = createClient(
+		Deno.env.get('SUPABASE_URL')!,
+		Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+	);
+
+	const jwt = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+	const {
+		data: { user },
+	} = jwt ? await admin.auth.getUser(jwt) : { data: { user: null } };
+	if (!user) {
+		return jsonResponse({ error: 'not_signed_in' }, 401);
+	}
+
+	const { data: isBanned } = await admin.rpc('is_session_banned', {
+		p_session_id: user.id,
+	});
+	if (isBanned) {
+		return jsonResponse({ error: 'banned' }, 403);
+	}
+
+	const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+	const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+	const [hourly, daily] = await Promise.all([
+		admin
+			.from('note_image_uploads')
+			.select('id', { count: 'exact', head: true })
+			.eq('user_id', user.id)
+			.gte('created_at', hourAgo),
+		admin
+			.from('note_image_uploads')
+			.select('id', { count: 'exact', head: true })
+			.eq('user_id', user.id)
+			.gte('created_at', dayAgo),
+	]);
+	if (hourly.error || daily.error) {
+		console.error('Error counting uploads:', hourly.error ?? daily.error);
+		return jsonResponse({ error: 'server_error' }, 500);
+	}
+	if (hourly.count >= UPLOADS_PER_HOUR || daily.count >= UPLOADS_PER_DAY) {
+		return jsonResponse({ error: 'quota_exceeded' }, 429);
+	}
+
+	let form: FormData;
+	try {
+		form = await req.formData();
+	} catch {
+		return jsonResponse({ error: 'missing_file' }, 400);
+	}
+
+	const image = form.get('image');
+	const thumbnail = form.get('thumbnail');
+	const imageCheck = await validateFile(
+		image instanceof File ? image : null,
+		MAX_IMAGE_BYTES
+	);
+	if ('error' in imageCheck) {
+		return jsonResponse({ error: imageCheck.error }, imageCheck.status);
+	}
+	const thumbnailCheck = await validateFile(
+		thumbnail instanceof File ? thumbnail : null,
+		MAX_THUMBNAIL_BYTES
+	);
+	if ('error' in thumbnailCheck) {
+		return jsonResponse({ error: thumbnailCheck.error }, thumbnailCheck.status);
+	}
+
+	const key = crypto.randomUUID();
+	const objectPath = `${user.id}/${key}.${imageCheck.type.extension}`;
+	const thumbnailPath = `${user.id}/${key}-thumb.${thumbnailCheck.type.extension}`;
+	const storage = admin.storage.from(BUCKET);
+
+	const [imageUpload, thumbnailUpload] = await Promise.all([
+		storage.upload(objectPath, image as File, {
+			contentType: imageCheck.type.mime,
+		}),
+		storage.upload(thumbnailPath, thumbnail as File, {
+			contentType: thumbnailCheck.type.mime,
+		}),
+	]);
+	if (imageUpload.error || thumbnailUpload.error) {
+		console.error(
+			'Error storing image:',
+			imageUpload.error ?? thumbnailUpload.error
+		);
+		await storage.remove([objectPath, thumbnailPath]);
+		return jsonResponse({ error: 'server_error' }, 500);
+	}
+
+	const imageUrl = storage.getPublicUrl(objectPath).data.publicUrl;
+	const thumbnailUrl = storage.getPublicUrl(thumbnailPath).data.publicUrl;
+
+	const { error: recordError } = await admin.from('note_image_uploads').insert({
+		user_id: user.id,
+		object_path: objectPath,
+		thumbnail_path: thumbnailPath,
+		image_url: imageUrl,
+		thumbnail_url: thumbnailUrl,
+		size_bytes: (image as File).size + (thumbnail as File).size,
+	});
+	if (recordError) {
+		console.error('Error recording upload:', recordError);
+		await storage.remove([objectPath, thumbnailPath]);
+		return jsonResponse({ error: 'server_error' }, 500);
+	}
+
+	return jsonResponse({
+		image_url: imageUrl,
+		image_thumbnail_url: thumbnailUrl,
+	});
+});
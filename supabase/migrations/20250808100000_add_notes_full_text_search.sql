@@ -0,0 +1,38 @@
+-- Full-text search across every note on the board (including replies)
+ALTER TABLE public.notes
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+	setweight(to_tsvector('simple', coalesce(short_id, '')), 'A') ||
+	setweight(to_tsvector('simple', coalesce(to_recipient, '')), 'A') ||
+	setweight(to_tsvector('simple', coalesce(from_sender, '')), 'B') ||
+	setweight(to_tsvector('simple', coalesce(message, '')), 'C')
+) STORED;
+
+CREATE INDEX notes_search_vector_idx ON public.notes USING GIN (search_vector);
+
+-- Turns free text into a prefix query ("secret adm" -> 'secret':* & 'adm':*)
+-- so results update while the user is still typing a word.
+CREATE OR REPLACE FUNCTION public.prefix_tsquery(search_query text)
+RETURNS tsquery
+LANGUAGE sql IMMUTABLE
+AS $$
+	SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+	FROM regexp_split_to_table(
+		trim(regexp_replace(lower(search_query), '[^[:alnum:]]+', ' ', 'g')),
+		' '
+	) AS term
+	WHERE term <> '';
+$$;
+
+-- Ranked search over the whole notes table. Returns a set so PostgREST can
+-- apply range() pagination and an exact count on top of it.
+CREATE OR REPLACE FUNCTION public.search_notes(search_query text)
+RETURNS SETOF public.notes
+LANGUAGE sql STABLE
+AS $$
+	SELECT n.*
+	FROM public.notes n, public.prefix_tsquery(search_query) AS q
+	WHERE q IS NOT NULL AND n.search_vector @@ q
+	ORDER BY ts_rank(n.search_vector, q) DESC, n.created_at DESC, n.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_notes(text) TO anon, authenticated;
@@ -0,0 +1,91 @@
+-- Report-a-note flow with automatic hiding once enough sessions report a note
+ALTER TABLE public.notes
+ADD COLUMN is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+-- One report per session per note
+ALTER TABLE public.reports
+ADD CONSTRAINT reports_note_id_session_id_key UNIQUE (note_id, session_id);
+
+-- Reports are only written through report_note()
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.reports FROM anon, authenticated;
+
+-- Single-row table holding board-wide moderation knobs
+CREATE TABLE public.moderation_settings (
+	id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+	report_threshold INTEGER NOT NULL DEFAULT 3 CHECK (report_threshold > 0)
+);
+
+INSERT INTO public.moderation_settings DEFAULT VALUES;
+
+ALTER TABLE public.moderation_settings ENABLE ROW LEVEL SECURITY;
+
+-- Records a report and hides the note once the threshold of distinct
+-- reporters is reached. The reporter is the signed-in (possibly anonymous)
+-- user, never an ID the client sends, so one browser can't pose as several
+-- reporters. Returns false if the caller had already reported the note.
+CREATE OR REPLACE FUNCTION public.report_note(p_note_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	caller text := auth.uid()::text;
+	inserted_count integer;
+	report_count integer;
+	threshold integer;
+BEGIN
+	IF caller IS NULL THEN
+		RAISE EXCEPTION 'Sign in to report notes' USING ERRCODE = '42501';
+	END IF;
+
+	INSERT INTO reports (note_id, session_id)
+	VALUES (p_note_id, caller)
+	ON CONFLICT (note_id, session_id) DO NOTHING;
+
+	GET DIAGNOSTICS inserted_count = ROW_COUNT;
+	IF inserted_count = 0 THEN
+		RETURN false;
+	END IF;
+
+	SELECT count(DISTINCT session_id) INTO report_count
+	FROM reports
+	WHERE note_id = p_note_id;
+
+	SELECT report_threshold INTO threshold FROM moderation_settings;
+
+	IF report_count >= threshold THEN
+		UPDATE notes SET is_hidden = true WHERE id = p_note_id;
+	END IF;
+
+	RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.report_note(uuid) TO authenticated;
+
+-- Hidden notes can't be read from the table directly (this also keeps them
+-- out of search_notes and the reply counts)...
+CREATE POLICY "Hidden notes are not readable"
+ON public.notes AS RESTRICTIVE FOR SELECT
+TO anon, authenticated
+USING (NOT is_hidden);
+
+-- ...but the board reads this view, which keeps hidden notes as content-less
+-- placeholders so reply threads stay readable. It leaves out session_id, so
+-- the feed can't be used to tie notes to the browser that posted them.
+CREATE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.image_url END AS image_url
+FROM public.notes n;
+
+GRANT SELECT ON public.notes_feed TO anon, authenticated;
@@ -0,0 +1,181 @@
+-- Moderator dashboard: review queue, restore/delete/ban actions and an audit log.
+-- Moderators are regular Supabase auth users whose app_metadata.role is
+-- 'moderator', e.g. on a local stack:
+--   UPDATE auth.users
+--   SET raw_app_meta_data = raw_app_meta_data || '{"role": "moderator"}'
+--   WHERE email = 'mod@example.com';
+
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS boolean
+LANGUAGE sql STABLE
+AS $$
+	SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'moderator';
+$$;
+
+-- Deleting a note takes its replies and reports with it
+ALTER TABLE public.notes
+DROP CONSTRAINT IF EXISTS notes_replying_to_id_fkey,
+ADD CONSTRAINT notes_replying_to_id_fkey
+	FOREIGN KEY (replying_to_id) REFERENCES public.notes(id) ON DELETE CASCADE;
+
+ALTER TABLE public.reports
+DROP CONSTRAINT IF EXISTS reports_note_id_fkey,
+ADD CONSTRAINT reports_note_id_fkey
+	FOREIGN KEY (note_id) REFERENCES public.notes(id) ON DELETE CASCADE;
+
+CREATE TABLE public.banned_sessions (
+	session_id TEXT PRIMARY KEY,
+	reason TEXT,
+	banned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+	created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.banned_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view banned sessions"
+ON public.banned_sessions FOR SELECT
+TO authenticated
+USING (public.is_moderator());
+
+CREATE TABLE public.moderation_actions (
+	id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+	moderator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+	action TEXT NOT NULL CHECK (action IN ('restore', 'delete', 'ban')),
+	-- No foreign key: the log has to outlive deleted notes
+	note_id UUID,
+	session_id TEXT,
+	details JSONB NOT NULL DEFAULT '{}'::jsonb,
+	created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX moderation_actions_created_at_idx
+ON public.moderation_actions (created_at DESC);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view the moderation log"
+ON public.moderation_actions FOR SELECT
+TO authenticated
+USING (public.is_moderator());
+
+CREATE OR REPLACE FUNCTION public.is_session_banned(p_session_id text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	SELECT EXISTS (SELECT 1 FROM banned_sessions WHERE session_id = p_session_id);
+$$;
+
+CREATE POLICY "Banned sessions cannot post"
+ON public.notes AS RESTRICTIVE FOR INSERT
+TO anon, authenticated
+WITH CHECK (NOT public.is_session_banned(session_id::text));
+
+-- Reported or hidden notes, most reported first
+CREATE OR REPLACE FUNCTION public.get_moderation_queue()
+RETURNS TABLE (
+	id uuid,
+	short_id text,
+	message text,
+	to_recipient text,
+	from_sender text,
+	image_url text,
+	session_id text,
+	replying_to_id uuid,
+	created_at timestamptz,
+	is_hidden boolean,
+	report_count bigint,
+	first_reported_at timestamptz,
+	last_reported_at timestamptz,
+	session_banned boolean
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	IF NOT is_moderator() THEN
+		RAISE EXCEPTION 'Only moderators can view the moderation queue'
+			USING ERRCODE = '42501';
+	END IF;
+
+	RETURN QUERY
+	SELECT
+		n.id,
+		n.short_id::text,
+		n.message,
+		n.to_recipient,
+		n.from_sender,
+		n.image_url,
+		n.session_id::text,
+		n.replying_to_id::uuid,
+		n.created_at,
+		n.is_hidden,
+		count(r.id) AS report_count,
+		min(r.created_at) AS first_reported_at,
+		max(r.created_at) AS last_reported_at,
+		is_session_banned(n.session_id::text) AS session_banned
+	FROM notes n
+	LEFT JOIN reports r ON r.note_id = n.id
+	GROUP BY n.id
+	HAVING count(r.id) > 0 OR n.is_hidden
+	ORDER BY count(r.id) DESC, max(r.created_at) DESC NULLS LAST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_moderation_queue() TO authenticated;
+
+-- Applies a moderation action to a note and records it in the audit log.
+--   restore: unhide the note and clear its reports so the threshold restarts
+--   delete:  permanently remove the note (and its replies)
+--   ban:     block the note's session from posting and hide the note
+CREATE OR REPLACE FUNCTION public.moderate_note(
+	p_note_id uuid,
+	p_action text,
+	p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	target notes%ROWTYPE;
+BEGIN
+	IF NOT is_moderator() THEN
+		RAISE EXCEPTION 'Only moderators can moderate notes'
+			USING ERRCODE = '42501';
+	END IF;
+
+	SELECT * INTO target FROM notes WHERE id = p_note_id;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Note % not found', p_note_id USING ERRCODE = 'P0002';
+	END IF;
+
+	CASE p_action
+		WHEN 'restore' THEN
+			UPDATE notes SET is_hidden = false WHERE id = p_note_id;
+			DELETE FROM reports WHERE note_id = p_note_id;
+		WHEN 'delete' THEN
+			DELETE FROM notes WHERE id = p_note_id;
+		WHEN 'ban' THEN
+			INSERT INTO banned_sessions (session_id, reason, banned_by)
+			VALUES (target.session_id::text, p_reason, auth.uid())
+			ON CONFLICT (session_id) DO NOTHING;
+			UPDATE notes SET is_hidden = true WHERE id = p_note_id;
+		ELSE
+			RAISE EXCEPTION 'Unknown moderation action: %', p_action
+				USING ERRCODE = '22023';
+	END CASE;
+
+	INSERT INTO moderation_actions (moderator_id, action, note_id, session_id, details)
+	VALUES (
+		auth.uid(),
+		p_action,
+		p_note_id,
+		target.session_id::text,
+		jsonb_build_object(
+			'reason', p_reason,
+			'short_id', target.short_id,
+			'message', target.message
+		)
+	);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.moderate_note(uuid, text, text) TO authenticated;
@@ -0,0 +1,105 @@
+-- Authors can delete their notes, and edit them within 10 minutes of posting.
+-- The author is the signed-in (possibly anonymous) user who posted the note,
+-- recorded in user_id by the server; session_id is whatever the client sent,
+-- so it can't prove ownership.
+ALTER TABLE public.notes
+ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX notes_user_id_idx ON public.notes (user_id);
+
+-- session_id follows the signed-in user, so bans and reports line up with it
+CREATE OR REPLACE FUNCTION public.set_note_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	NEW.user_id := auth.uid();
+	IF NEW.user_id IS NOT NULL THEN
+		NEW.session_id := NEW.user_id::text;
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_note_owner
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.set_note_owner();
+
+-- Direct updates/deletes are blocked so the ownership and time checks below
+-- can't be skipped by calling the table API
+CREATE POLICY "Notes are only updated through RPCs"
+ON public.notes AS RESTRICTIVE FOR UPDATE
+TO anon, authenticated
+USING (false);
+
+CREATE POLICY "Notes are only deleted through RPCs"
+ON public.notes AS RESTRICTIVE FOR DELETE
+TO anon, authenticated
+USING (false);
+
+CREATE OR REPLACE FUNCTION public.delete_own_note(p_note_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	DELETE FROM notes
+	WHERE id = p_note_id AND user_id IS NOT NULL AND user_id = auth.uid();
+
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Note % not found or not owned by you', p_note_id
+			USING ERRCODE = '42501';
+	END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_own_note(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.edit_own_note(
+	p_note_id uuid,
+	p_message text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_color text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	target notes%ROWTYPE;
+BEGIN
+	SELECT * INTO target
+	FROM notes
+	WHERE id = p_note_id AND user_id IS NOT NULL AND user_id = auth.uid()
+	FOR UPDATE;
+
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Note % not found or not owned by you', p_note_id
+			USING ERRCODE = '42501';
+	END IF;
+
+	IF target.is_hidden THEN
+		RAISE EXCEPTION 'Hidden notes cannot be edited' USING ERRCODE = '42501';
+	END IF;
+
+	IF target.created_at < now() - interval '10 minutes' THEN
+		RAISE EXCEPTION 'edit_window_expired'
+			USING ERRCODE = '42501',
+			HINT = 'Notes can only be edited within 10 minutes of posting.';
+	END IF;
+
+	IF coalesce(trim(p_message), '') = '' THEN
+		RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+	END IF;
+
+	UPDATE notes
+	SET
+		message = trim(p_message),
+		to_recipient = nullif(trim(p_to_recipient), ''),
+		from_sender = nullif(trim(p_from_sender), ''),
+		color = coalesce(p_color, color),
+		updated_at = now()
+	WHERE id = p_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.edit_own_note(uuid, text, text, text, text) TO authenticated;
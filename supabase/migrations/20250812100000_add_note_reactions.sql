@@ -0,0 +1,73 @@
+-- Emoji reactions, replacing the old likes counter. Counts are always
+-- aggregated from the rows, so there is no counter column to drift.
+CREATE TABLE public.note_reactions (
+	note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+	session_id TEXT NOT NULL,
+	kind TEXT NOT NULL CHECK (kind IN ('heart', 'laugh', 'cry', 'wow', 'angry', 'fire')),
+	created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+	PRIMARY KEY (note_id, session_id, kind)
+);
+
+ALTER TABLE public.note_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Readable so the board can show which reactions are yours and receive
+-- realtime events; writes only go through toggle_reaction().
+CREATE POLICY "Anyone can view reactions"
+ON public.note_reactions FOR SELECT
+TO anon, authenticated
+USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.note_reactions;
+
+-- Adds the reaction if the session hasn't used it on this note yet,
+-- otherwise removes it. Returns whether the reaction is now set.
+CREATE OR REPLACE FUNCTION public.toggle_reaction(
+	p_note_id uuid,
+	p_session_id text,
+	p_kind text
+)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	DELETE FROM note_reactions
+	WHERE note_id = p_note_id AND session_id = p_session_id AND kind = p_kind;
+
+	IF FOUND THEN
+		RETURN false;
+	END IF;
+
+	INSERT INTO note_reactions (note_id, session_id, kind)
+	VALUES (p_note_id, p_session_id, p_kind)
+	ON CONFLICT DO NOTHING;
+
+	RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.toggle_reaction(uuid, text, text) TO anon, authenticated;
+
+-- Per-kind reaction counts come back with the board query
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.image_url END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts
+FROM public.notes n;
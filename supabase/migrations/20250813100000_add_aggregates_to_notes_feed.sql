@@ -0,0 +1,53 @@
+-- Reply and report counts come back with the board query instead of one
+-- get_note_replies_count() call per note.
+CREATE INDEX IF NOT EXISTS notes_replying_to_id_idx ON public.notes (replying_to_id);
+CREATE INDEX IF NOT EXISTS reports_note_id_idx ON public.reports (note_id);
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.image_url END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	(
+		SELECT count(*) FROM public.notes replies WHERE replies.replying_to_id = n.id
+	) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count
+FROM public.notes n;
+
+-- Search results carry the same aggregates as the board
+DROP FUNCTION IF EXISTS public.search_notes(text);
+
+CREATE FUNCTION public.search_notes(search_query text)
+RETURNS SETOF public.notes_feed
+LANGUAGE sql STABLE
+AS $$
+	-- Joining the table (not just the view) keeps the RLS rules on notes,
+	-- so hidden notes never show up in results.
+	SELECT f.*
+	FROM public.notes n
+	JOIN public.notes_feed f ON f.id = n.id,
+	public.prefix_tsquery(search_query) AS q
+	WHERE q IS NOT NULL AND n.search_vector @@ q
+	ORDER BY ts_rank(n.search_vector, q) DESC, n.created_at DESC, n.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_notes(text) TO anon, authenticated;
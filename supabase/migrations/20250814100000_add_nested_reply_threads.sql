@@ -0,0 +1,63 @@
+-- Replies can now be replied to. Counts and thread fetches walk the whole
+-- reply tree instead of a single level.
+CREATE OR REPLACE FUNCTION public.get_note_replies_count(note_id uuid)
+RETURNS bigint
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	-- Hidden replies still count: the thread shows them as placeholders
+	WITH RECURSIVE thread AS (
+		SELECT n.id FROM notes n WHERE n.replying_to_id = get_note_replies_count.note_id
+		UNION ALL
+		SELECT n.id FROM notes n JOIN thread t ON n.replying_to_id = t.id
+	)
+	SELECT count(*) FROM thread;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_note_replies_count(uuid) TO anon, authenticated;
+
+-- Every reply below a note, oldest first. Rows come from notes_feed so
+-- hidden replies keep their place in the tree without their content.
+CREATE OR REPLACE FUNCTION public.get_note_thread(p_note_id uuid)
+RETURNS SETOF public.notes_feed
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	WITH RECURSIVE thread AS (
+		SELECT n.id FROM notes n WHERE n.replying_to_id = p_note_id
+		UNION ALL
+		SELECT n.id FROM notes n JOIN thread t ON n.replying_to_id = t.id
+	)
+	SELECT f.*
+	FROM notes_feed f
+	JOIN thread t ON t.id = f.id
+	ORDER BY f.created_at ASC, f.id ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_note_thread(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.image_url END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count
+FROM public.notes n;
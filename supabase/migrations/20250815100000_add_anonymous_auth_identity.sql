@@ -0,0 +1,195 @@
+-- Posting moves to Supabase auth users (anonymous sign-in). Notes already
+-- record their author in user_id; session_id stays the poster's key for
+-- bans, reactions and reports, and is now always derived from auth.uid() on
+-- the server.
+
+-- Only content edits count as "edited"
+CREATE OR REPLACE FUNCTION public.touch_note_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	IF (NEW.message, NEW.to_recipient, NEW.from_sender, NEW.color)
+		IS DISTINCT FROM (OLD.message, OLD.to_recipient, OLD.from_sender, OLD.color)
+	THEN
+		NEW.updated_at := now();
+	ELSE
+		NEW.updated_at := OLD.updated_at;
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_note_updated_at
+BEFORE UPDATE ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.touch_note_updated_at();
+
+-- Posting requires a (possibly anonymous) signed-in user
+CREATE POLICY "Notes are posted by signed-in users"
+ON public.notes AS RESTRICTIVE FOR INSERT
+TO anon, authenticated
+WITH CHECK (user_id IS NOT NULL AND user_id = auth.uid());
+
+-- Replace every existing update/delete policy on notes with ownership checks
+DO $$
+DECLARE
+	policy record;
+BEGIN
+	FOR policy IN
+		SELECT policyname FROM pg_policies
+		WHERE schemaname = 'public' AND tablename = 'notes' AND cmd IN ('UPDATE', 'DELETE')
+	LOOP
+		EXECUTE format('DROP POLICY %I ON public.notes', policy.policyname);
+	END LOOP;
+END;
+$$;
+
+CREATE POLICY "Authors can delete their own notes"
+ON public.notes FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Authors can edit their own notes for 10 minutes"
+ON public.notes FOR UPDATE
+TO authenticated
+USING (
+	user_id = auth.uid()
+	AND NOT is_hidden
+	AND created_at > now() - interval '10 minutes'
+)
+WITH CHECK (user_id = auth.uid());
+
+-- Authors may only change the note's content, never its owner or state
+REVOKE UPDATE ON public.notes FROM anon, authenticated;
+GRANT UPDATE (message, to_recipient, from_sender, color) ON public.notes TO authenticated;
+
+-- A session_id is now the browser's auth uid, and reading them would tie
+-- together everything one browser reacts to, so each session only sees its
+-- own reactions. Other people's come back as counts with the feed.
+DROP POLICY "Anyone can view reactions" ON public.note_reactions;
+
+CREATE POLICY "Sessions can view their own reactions"
+ON public.note_reactions FOR SELECT
+TO authenticated
+USING (session_id = auth.uid()::text);
+
+-- Realtime would now only deliver your own reactions, so toggling one
+-- touches the note instead and its UPDATE tells every reader to refresh
+ALTER PUBLICATION supabase_realtime DROP TABLE public.note_reactions;
+
+ALTER TABLE public.notes
+ADD COLUMN reacted_at TIMESTAMPTZ;
+
+-- Reactions now take the caller from the JWT
+DROP FUNCTION IF EXISTS public.toggle_reaction(uuid, text, text);
+
+CREATE FUNCTION public.toggle_reaction(p_note_id uuid, p_kind text)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	caller text := auth.uid()::text;
+BEGIN
+	IF caller IS NULL THEN
+		RAISE EXCEPTION 'Sign in to react to notes' USING ERRCODE = '42501';
+	END IF;
+
+	UPDATE notes SET reacted_at = now() WHERE id = p_note_id;
+
+	DELETE FROM note_reactions
+	WHERE note_id = p_note_id AND session_id = caller AND kind = p_kind;
+
+	IF FOUND THEN
+		RETURN false;
+	END IF;
+
+	INSERT INTO note_reactions (note_id, session_id, kind)
+	VALUES (p_note_id, caller, p_kind)
+	ON CONFLICT DO NOTHING;
+
+	RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.toggle_reaction(uuid, text) TO authenticated;
+
+-- session_id and user_id tie together every note one browser posts, so
+-- clients can read every column but those. Realtime checks the same column
+-- privileges, so its payloads leave them out too. (Notes posted before
+-- sign-in keep no owner. Their session IDs were readable through the API
+-- and realtime until now, and the old client kept no other secret, so
+-- holding one proves nothing; a claim would hand anyone's notes to whoever
+-- asks first.)
+REVOKE SELECT ON public.notes FROM anon, authenticated;
+GRANT SELECT (
+	id, short_id, message, color, to_recipient, from_sender, image_url,
+	replying_to_id, created_at, updated_at, is_hidden, search_vector
+) ON public.notes TO anon, authenticated;
+
+-- Clients get an is_own flag instead of the author's ID. Dropping the view
+-- also drops the functions returning its row type.
+DROP VIEW public.notes_feed CASCADE;
+
+CREATE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.image_url END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count
+FROM public.notes n;
+
+GRANT SELECT ON public.notes_feed TO anon, authenticated;
+
+CREATE FUNCTION public.search_notes(search_query text)
+RETURNS SETOF public.notes_feed
+LANGUAGE sql STABLE
+AS $$
+	-- Joining the table (not just the view) keeps the RLS rules on notes,
+	-- so hidden notes never show up in results.
+	SELECT f.*
+	FROM public.notes n
+	JOIN public.notes_feed f ON f.id = n.id,
+	public.prefix_tsquery(search_query) AS q
+	WHERE q IS NOT NULL AND n.search_vector @@ q
+	ORDER BY ts_rank(n.search_vector, q) DESC, n.created_at DESC, n.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_notes(text) TO anon, authenticated;
+
+CREATE FUNCTION public.get_note_thread(p_note_id uuid)
+RETURNS SETOF public.notes_feed
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	WITH RECURSIVE thread AS (
+		SELECT n.id FROM notes n WHERE n.replying_to_id = p_note_id
+		UNION ALL
+		SELECT n.id FROM notes n JOIN thread t ON n.replying_to_id = t.id
+	)
+	SELECT f.*
+	FROM notes_feed f
+	JOIN thread t ON t.id = f.id
+	ORDER BY f.created_at ASC, f.id ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_note_thread(uuid) TO anon, authenticated;
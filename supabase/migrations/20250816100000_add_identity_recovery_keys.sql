@@ -0,0 +1,139 @@
+-- Recovery keys let an anonymous author move their notes to another browser.
+-- The key itself is generated on the client and only its SHA-256 hash is
+-- stored, so a database dump does not reveal anyone's key.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.identity_recovery_keys (
+	user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+	key_hash TEXT NOT NULL UNIQUE,
+	created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only reachable through the functions below
+ALTER TABLE public.identity_recovery_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.identity_recovery_keys FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.hash_recovery_key(p_recovery_key text)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+SET search_path = public, extensions
+AS $$
+	SELECT encode(digest(upper(regexp_replace(p_recovery_key, '[^0-9A-Za-z]', '', 'g')), 'sha256'), 'hex');
+$$;
+
+-- Moves reactions, reports and bans recorded under one session ID to another.
+-- Rows the target session already has are left with the old ID.
+CREATE OR REPLACE FUNCTION public.transfer_session_activity(p_from_session text, p_to_session text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	UPDATE note_reactions r
+	SET session_id = p_to_session
+	WHERE r.session_id = p_from_session
+		AND NOT EXISTS (
+			SELECT 1 FROM note_reactions mine
+			WHERE mine.note_id = r.note_id
+				AND mine.kind = r.kind
+				AND mine.session_id = p_to_session
+		);
+
+	UPDATE reports r
+	SET session_id = p_to_session
+	WHERE r.session_id = p_from_session
+		AND NOT EXISTS (
+			SELECT 1 FROM reports mine
+			WHERE mine.note_id = r.note_id AND mine.session_id = p_to_session
+		);
+
+	IF is_session_banned(p_from_session) THEN
+		INSERT INTO banned_sessions (session_id, reason)
+		VALUES (p_to_session, 'Carried over from session ' || p_from_session)
+		ON CONFLICT (session_id) DO NOTHING;
+	END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_session_activity(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Saves a new recovery key for the caller, replacing any earlier one
+CREATE OR REPLACE FUNCTION public.set_recovery_key(p_recovery_key text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	caller uuid := auth.uid();
+BEGIN
+	IF caller IS NULL THEN
+		RAISE EXCEPTION 'Sign in to create a recovery key' USING ERRCODE = '42501';
+	END IF;
+
+	IF length(regexp_replace(p_recovery_key, '[^0-9A-Za-z]', '', 'g')) < 20 THEN
+		RAISE EXCEPTION 'Recovery key is too short' USING ERRCODE = '22023';
+	END IF;
+
+	INSERT INTO identity_recovery_keys (user_id, key_hash)
+	VALUES (caller, hash_recovery_key(p_recovery_key))
+	ON CONFLICT (user_id) DO UPDATE
+	SET key_hash = EXCLUDED.key_hash, created_at = now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_recovery_key(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.has_recovery_key()
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	SELECT EXISTS (
+		SELECT 1 FROM identity_recovery_keys WHERE user_id = auth.uid()
+	);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_recovery_key() TO authenticated;
+
+-- Hands every note owned by the key's user to the caller and moves the key
+-- along with them, so the same key keeps working on the next device.
+CREATE OR REPLACE FUNCTION public.recover_identity(p_recovery_key text)
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	caller uuid := auth.uid();
+	previous_owner uuid;
+	recovered_count integer;
+BEGIN
+	IF caller IS NULL THEN
+		RAISE EXCEPTION 'Sign in to recover notes' USING ERRCODE = '42501';
+	END IF;
+
+	SELECT user_id INTO previous_owner
+	FROM identity_recovery_keys
+	WHERE key_hash = hash_recovery_key(p_recovery_key)
+	FOR UPDATE;
+
+	IF previous_owner IS NULL THEN
+		RAISE EXCEPTION 'invalid_recovery_key'
+			USING ERRCODE = 'P0002', HINT = 'That recovery key does not match any notes.';
+	END IF;
+
+	IF previous_owner = caller THEN
+		RETURN 0;
+	END IF;
+
+	UPDATE notes
+	SET user_id = caller, session_id = caller::text
+	WHERE user_id = previous_owner;
+
+	GET DIAGNOSTICS recovered_count = ROW_COUNT;
+
+	PERFORM transfer_session_activity(previous_owner::text, caller::text);
+
+	DELETE FROM identity_recovery_keys WHERE user_id = caller;
+	UPDATE identity_recovery_keys SET user_id = caller WHERE user_id = previous_owner;
+
+	RETURN recovered_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.recover_identity(text) TO authenticated;
@@ -0,0 +1,37 @@
+-- Images are resized and re-encoded in the browser before upload, which
+-- also produces a small thumbnail for the board. Older notes have none and
+-- fall back to the full image.
+ALTER TABLE public.notes
+ADD COLUMN image_thumbnail_url TEXT;
+
+GRANT SELECT (image_thumbnail_url) ON public.notes TO anon, authenticated;
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.image_url END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.image_thumbnail_url END AS image_thumbnail_url
+FROM public.notes n;
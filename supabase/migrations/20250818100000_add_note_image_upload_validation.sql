@@ -0,0 +1,129 @@
+-- Note images are uploaded through the upload-note-image Edge Function,
+-- which checks the file contents, enforces size limits and upload quotas and
+-- picks the object key itself. Clients can no longer write to the bucket.
+DROP POLICY IF EXISTS "Anyone can upload an image." ON storage.objects;
+
+UPDATE storage.buckets
+SET
+	file_size_limit = 2097152,
+	allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+WHERE id = 'note-images';
+
+-- One row per accepted upload (image plus thumbnail). Rows without a note
+-- are orphans: either never posted or left behind by a deleted note.
+CREATE TABLE public.note_image_uploads (
+	id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+	user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+	note_id UUID REFERENCES public.notes(id) ON DELETE SET NULL,
+	object_path TEXT NOT NULL UNIQUE,
+	thumbnail_path TEXT,
+	image_url TEXT NOT NULL UNIQUE,
+	thumbnail_url TEXT,
+	size_bytes INTEGER NOT NULL,
+	created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX note_image_uploads_user_id_created_at_idx
+ON public.note_image_uploads (user_id, created_at);
+
+CREATE INDEX note_image_uploads_orphans_idx
+ON public.note_image_uploads (created_at)
+WHERE note_id IS NULL;
+
+-- Written by the Edge Function with the service role only
+ALTER TABLE public.note_image_uploads ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.note_image_uploads FROM anon, authenticated;
+
+-- Track images posted before uploads went through the function, so they are
+-- cleaned up with their notes too.
+INSERT INTO public.note_image_uploads (user_id, note_id, object_path, thumbnail_path, image_url, thumbnail_url, size_bytes, created_at)
+SELECT
+	n.user_id,
+	n.id,
+	split_part(n.image_url, '/note-images/', 2),
+	nullif(split_part(n.image_thumbnail_url, '/note-images/', 2), ''),
+	n.image_url,
+	n.image_thumbnail_url,
+	0,
+	n.created_at
+FROM public.notes n
+WHERE n.image_url LIKE '%/note-images/%'
+ON CONFLICT DO NOTHING;
+
+-- A note may only show an image its author uploaded and hasn't used yet.
+-- The thumbnail always comes from the upload record, not the client.
+CREATE OR REPLACE FUNCTION public.use_note_image_upload()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	upload note_image_uploads%ROWTYPE;
+BEGIN
+	IF NEW.image_url IS NULL THEN
+		NEW.image_thumbnail_url := NULL;
+		RETURN NEW;
+	END IF;
+
+	SELECT * INTO upload
+	FROM note_image_uploads
+	WHERE image_url = NEW.image_url
+		AND user_id = NEW.user_id
+		AND note_id IS NULL
+	FOR UPDATE;
+
+	IF upload.id IS NULL THEN
+		RAISE EXCEPTION 'invalid_image_upload'
+			USING ERRCODE = '22023', HINT = 'Upload the image again before posting.';
+	END IF;
+
+	NEW.image_thumbnail_url := upload.thumbnail_url;
+	RETURN NEW;
+END;
+$$;
+
+-- Runs after set_note_owner (triggers fire in name order), so user_id is set
+CREATE TRIGGER use_note_image_upload
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.use_note_image_upload();
+
+CREATE OR REPLACE FUNCTION public.attach_note_image_upload()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	UPDATE note_image_uploads
+	SET note_id = NEW.id
+	WHERE image_url = NEW.image_url AND note_id IS NULL;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attach_note_image_upload
+AFTER INSERT ON public.notes
+FOR EACH ROW
+WHEN (NEW.image_url IS NOT NULL)
+EXECUTE FUNCTION public.attach_note_image_upload();
+
+-- Deleting a note (or its cascade of replies) orphans its uploads through
+-- the ON DELETE SET NULL above. Storage objects can only be removed through
+-- the Storage API, so the cleanup-note-images function sweeps orphans every
+-- hour. It expects the project URL and service role key in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+	'cleanup-note-images',
+	'17 * * * *',
+	$$
+	SELECT net.http_post(
+		url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/cleanup-note-images',
+		headers := jsonb_build_object(
+			'Content-Type', 'application/json',
+			'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+		),
+		body := '{}'::jsonb,
+		-- The function keeps sweeping for up to a minute
+		timeout_milliseconds := 90000
+	);
+	$$
+);
@@ -0,0 +1,221 @@
+-- Notes can carry up to four images, stored in note_attachments instead of
+-- the single notes.image_url column. The feed keeps image_url and
+-- image_thumbnail_url (the first image) for link previews and older clients.
+CREATE TABLE public.note_attachments (
+	id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+	note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+	position SMALLINT NOT NULL CHECK (position BETWEEN 0 AND 3),
+	image_url TEXT NOT NULL,
+	thumbnail_url TEXT,
+	created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+	UNIQUE (note_id, position)
+);
+
+ALTER TABLE public.note_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Readable whenever the note itself is (the subquery runs under notes RLS)
+CREATE POLICY "Attachments of readable notes are readable"
+ON public.note_attachments FOR SELECT
+TO anon, authenticated
+USING (EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id));
+
+CREATE POLICY "Authors can attach images to their notes"
+ON public.note_attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+	EXISTS (
+		SELECT 1 FROM public.notes n
+		WHERE n.id = note_id AND n.user_id = auth.uid()
+	)
+);
+
+GRANT SELECT ON public.note_attachments TO anon, authenticated;
+GRANT INSERT (note_id, position, image_url) ON public.note_attachments TO authenticated;
+
+INSERT INTO public.note_attachments (note_id, position, image_url, thumbnail_url, created_at)
+SELECT id, 0, image_url, image_thumbnail_url, created_at
+FROM public.notes
+WHERE image_url IS NOT NULL;
+
+-- Attachments must point at an unused upload of the note's author, which is
+-- then marked as used by the note. The thumbnail comes from the upload.
+DROP TRIGGER use_note_image_upload ON public.notes;
+DROP TRIGGER attach_note_image_upload ON public.notes;
+DROP FUNCTION public.use_note_image_upload();
+DROP FUNCTION public.attach_note_image_upload();
+
+CREATE OR REPLACE FUNCTION public.use_attachment_upload()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	upload note_image_uploads%ROWTYPE;
+BEGIN
+	SELECT u.* INTO upload
+	FROM note_image_uploads u
+	JOIN notes n ON n.id = NEW.note_id AND n.user_id = u.user_id
+	WHERE u.image_url = NEW.image_url AND u.note_id IS NULL
+	FOR UPDATE OF u;
+
+	IF upload.id IS NULL THEN
+		RAISE EXCEPTION 'invalid_image_upload'
+			USING ERRCODE = '22023', HINT = 'Upload the image again before posting.';
+	END IF;
+
+	UPDATE note_image_uploads SET note_id = NEW.note_id WHERE id = upload.id;
+
+	NEW.thumbnail_url := upload.thumbnail_url;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER use_attachment_upload
+BEFORE INSERT ON public.note_attachments
+FOR EACH ROW EXECUTE FUNCTION public.use_attachment_upload();
+
+-- Posts a note together with its images in one transaction, so nobody sees
+-- the note before its attachments exist. Runs as the caller, so the usual
+-- insert policies (signed in, not banned) still apply.
+CREATE OR REPLACE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+BEGIN
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	INSERT INTO notes (message, color, to_recipient, from_sender, replying_to_id, session_id)
+	VALUES (p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text)
+	RETURNING id INTO new_note_id;
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN new_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_note_attachments(p_note_id uuid)
+RETURNS jsonb
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	SELECT coalesce(
+		jsonb_agg(
+			jsonb_build_object('url', a.image_url, 'thumbnail_url', a.thumbnail_url)
+			ORDER BY a.position
+		),
+		'[]'::jsonb
+	)
+	FROM note_attachments a
+	WHERE a.note_id = p_note_id;
+$$;
+
+-- Only the feed reads attachments through this; called directly it would
+-- skip every check the feed makes on the note.
+REVOKE EXECUTE ON FUNCTION public.get_note_attachments(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'url' END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'thumbnail_url' END AS image_thumbnail_url,
+	CASE WHEN n.is_hidden THEN '[]'::jsonb ELSE a.attachments END AS attachments
+FROM public.notes n
+CROSS JOIN LATERAL (
+	SELECT public.get_note_attachments(n.id) AS attachments
+) a;
+
+CREATE OR REPLACE FUNCTION public.get_moderation_queue()
+RETURNS TABLE (
+	id uuid,
+	short_id text,
+	message text,
+	to_recipient text,
+	from_sender text,
+	image_url text,
+	session_id text,
+	replying_to_id uuid,
+	created_at timestamptz,
+	is_hidden boolean,
+	report_count bigint,
+	first_reported_at timestamptz,
+	last_reported_at timestamptz,
+	session_banned boolean
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	IF NOT is_moderator() THEN
+		RAISE EXCEPTION 'Only moderators can view the moderation queue'
+			USING ERRCODE = '42501';
+	END IF;
+
+	RETURN QUERY
+	SELECT
+		n.id,
+		n.short_id::text,
+		n.message,
+		n.to_recipient,
+		n.from_sender,
+		(
+			SELECT a.image_url FROM note_attachments a
+			WHERE a.note_id = n.id
+			ORDER BY a.position
+			LIMIT 1
+		),
+		n.session_id::text,
+		n.replying_to_id::uuid,
+		n.created_at,
+		n.is_hidden,
+		count(r.id) AS report_count,
+		min(r.created_at) AS first_reported_at,
+		max(r.created_at) AS last_reported_at,
+		is_session_banned(n.session_id::text) AS session_banned
+	FROM notes n
+	LEFT JOIN reports r ON r.note_id = n.id
+	GROUP BY n.id
+	HAVING count(r.id) > 0 OR n.is_hidden
+	ORDER BY count(r.id) DESC, max(r.created_at) DESC NULLS LAST;
+END;
+$$;
+
+ALTER TABLE public.notes
+DROP COLUMN image_url,
+DROP COLUMN image_thumbnail_url;
@@ -0,0 +1,5 @@
+-- The infinite-scroll board pages through top-level notes by
+-- (created_at, id) instead of by offset, so new notes don't shift pages.
+CREATE INDEX notes_top_level_keyset_idx
+ON public.notes (created_at DESC, id DESC)
+WHERE replying_to_id IS NULL;
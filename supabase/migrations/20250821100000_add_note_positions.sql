@@ -0,0 +1,69 @@
+-- Where each note sits on the freeform corkboard. Notes without a row are
+-- scattered by the client at a spot derived from their ID until their author
+-- first moves them.
+CREATE TABLE public.note_positions (
+	note_id UUID PRIMARY KEY REFERENCES public.notes(id) ON DELETE CASCADE,
+	x REAL NOT NULL,
+	y REAL NOT NULL,
+	rotation REAL NOT NULL DEFAULT 0 CHECK (rotation BETWEEN -15 AND 15),
+	z_index INTEGER NOT NULL DEFAULT 0,
+	updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.note_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Positions of readable notes are readable"
+ON public.note_positions FOR SELECT
+TO anon, authenticated
+USING (EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id));
+
+GRANT SELECT ON public.note_positions TO anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.note_positions;
+
+-- Moves one of the caller's notes and brings it to the front. Returns the
+-- note's new z-index. Positions are kept within the canvas (3200 x 2000,
+-- less a note's 300 x 360) like clampToCorkboard does on the client.
+CREATE OR REPLACE FUNCTION public.move_note(
+	p_note_id uuid,
+	p_x real,
+	p_y real,
+	p_rotation real
+)
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	front integer;
+BEGIN
+	IF NOT EXISTS (
+		SELECT 1 FROM notes
+		WHERE id = p_note_id AND user_id = auth.uid() AND NOT is_hidden
+	) THEN
+		RAISE EXCEPTION 'Only the author can move this note'
+			USING ERRCODE = '42501';
+	END IF;
+
+	SELECT coalesce(max(z_index), 0) + 1 INTO front FROM note_positions;
+
+	INSERT INTO note_positions (note_id, x, y, rotation, z_index)
+	VALUES (
+		p_note_id,
+		greatest(0, least(p_x, 2900)),
+		greatest(0, least(p_y, 1640)),
+		greatest(-15, least(p_rotation, 15)),
+		front
+	)
+	ON CONFLICT (note_id) DO UPDATE
+	SET
+		x = EXCLUDED.x,
+		y = EXCLUDED.y,
+		rotation = EXCLUDED.rotation,
+		z_index = EXCLUDED.z_index,
+		updated_at = now();
+
+	RETURN front;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.move_note(uuid, real, real, real) TO authenticated;
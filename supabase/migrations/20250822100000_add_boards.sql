@@ -0,0 +1,162 @@
+-- Notes now belong to one of several boards (per class, event or topic),
+-- each with its own slug, title, description and color theme. Everything
+-- posted so far moves to the original board at /b/kada.
+CREATE TABLE public.boards (
+	id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+	slug TEXT NOT NULL UNIQUE CHECK (
+		slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(slug) BETWEEN 2 AND 48
+	),
+	title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 80),
+	description TEXT CHECK (char_length(description) <= 280),
+	theme TEXT NOT NULL DEFAULT 'cork'
+		CHECK (theme IN ('cork', 'chalk', 'slate', 'sky', 'rose')),
+	created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+	created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.boards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Boards are readable by everyone"
+ON public.boards FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can create boards"
+ON public.boards FOR INSERT
+TO authenticated
+WITH CHECK (created_by IS NOT NULL AND created_by = auth.uid());
+
+-- created_by is the creator's auth uid, which would tie their boards to
+-- everything else that browser does, so clients read every column but it
+REVOKE SELECT ON public.boards FROM anon, authenticated;
+GRANT SELECT (id, slug, title, description, theme, created_at) ON public.boards TO anon, authenticated;
+GRANT INSERT (slug, title, description, theme) ON public.boards TO authenticated;
+
+INSERT INTO public.boards (slug, title)
+VALUES ('kada', 'KADA''s Bulletin Board');
+
+ALTER TABLE public.notes
+ADD COLUMN board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE;
+
+UPDATE public.notes
+SET board_id = (SELECT id FROM public.boards WHERE slug = 'kada');
+
+ALTER TABLE public.notes
+ALTER COLUMN board_id SET NOT NULL;
+
+GRANT SELECT (board_id) ON public.notes TO anon, authenticated;
+
+-- Board feeds page by (created_at, id) within one board
+DROP INDEX public.notes_top_level_keyset_idx;
+
+CREATE INDEX notes_board_keyset_idx
+ON public.notes (board_id, created_at DESC, id DESC)
+WHERE replying_to_id IS NULL;
+
+-- Replies always live on their parent's board, whatever the client sent.
+-- Definer rights so a hidden parent's board can still be looked up.
+CREATE OR REPLACE FUNCTION public.set_note_board()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	IF NEW.replying_to_id IS NOT NULL THEN
+		SELECT board_id INTO NEW.board_id FROM notes WHERE id = NEW.replying_to_id;
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_note_board
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.set_note_board();
+
+DROP FUNCTION public.create_note(text, text, text, text, uuid, text[]);
+
+CREATE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+BEGIN
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	INSERT INTO notes (message, color, to_recipient, from_sender, replying_to_id, session_id, board_id)
+	VALUES (p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text, p_board_id)
+	RETURNING id INTO new_note_id;
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN new_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid) TO authenticated;
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'url' END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'thumbnail_url' END AS image_thumbnail_url,
+	CASE WHEN n.is_hidden THEN '[]'::jsonb ELSE a.attachments END AS attachments,
+	n.board_id
+FROM public.notes n
+CROSS JOIN LATERAL (
+	SELECT public.get_note_attachments(n.id) AS attachments
+) a;
+
+-- Search is scoped to one board
+DROP FUNCTION public.search_notes(text);
+
+CREATE FUNCTION public.search_notes(search_query text, p_board_id uuid)
+RETURNS SETOF public.notes_feed
+LANGUAGE sql STABLE
+AS $$
+	-- Joining the table (not just the view) keeps the RLS rules on notes,
+	-- so hidden notes never show up in results.
+	SELECT f.*
+	FROM public.notes n
+	JOIN public.notes_feed f ON f.id = n.id,
+	public.prefix_tsquery(search_query) AS q
+	WHERE q IS NOT NULL AND n.board_id = p_board_id AND n.search_vector @@ q
+	ORDER BY ts_rank(n.search_vector, q) DESC, n.created_at DESC, n.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_notes(text, uuid) TO anon, authenticated;
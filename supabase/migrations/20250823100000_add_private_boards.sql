@@ -0,0 +1,312 @@
+-- Private boards are only readable by their members. Anyone holding the
+-- board's join code (or an invite link carrying it) can become a member;
+-- posting stays anonymous. The creator can rotate or revoke the code.
+ALTER TABLE public.boards
+ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false;
+
+GRANT SELECT (is_private) ON public.boards TO anon, authenticated;
+GRANT INSERT (is_private) ON public.boards TO authenticated;
+
+CREATE TABLE public.board_members (
+	board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+	user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+	joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+	PRIMARY KEY (board_id, user_id)
+);
+
+ALTER TABLE public.board_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see their own memberships"
+ON public.board_members FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+GRANT SELECT ON public.board_members TO authenticated;
+
+-- Clients can't read created_by, so they ask this instead, e.g. to offer
+-- the creator the invite controls
+CREATE OR REPLACE FUNCTION public.owns_board(p_board_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	SELECT EXISTS (
+		SELECT 1 FROM boards
+		WHERE id = p_board_id AND created_by IS NOT NULL AND created_by = auth.uid()
+	);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.owns_board(uuid) TO authenticated;
+
+-- One active code per private board; no row means joining is switched off
+CREATE TABLE public.board_join_codes (
+	board_id UUID PRIMARY KEY REFERENCES public.boards(id) ON DELETE CASCADE,
+	code TEXT NOT NULL UNIQUE,
+	created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.board_join_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Board creators can see their join codes"
+ON public.board_join_codes FOR SELECT
+TO authenticated
+USING (public.owns_board(board_id));
+
+GRANT SELECT ON public.board_join_codes TO authenticated;
+
+-- Eight characters without look-alikes (0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION public.generate_join_code()
+RETURNS text
+LANGUAGE plpgsql VOLATILE SET search_path = public
+AS $$
+DECLARE
+	alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+	random_bytes bytea := extensions.gen_random_bytes(8);
+	code text := '';
+BEGIN
+	FOR i IN 0..7 LOOP
+		code := code || substr(alphabet, get_byte(random_bytes, i) % length(alphabet) + 1, 1);
+	END LOOP;
+	RETURN code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_join_code() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.can_read_board(p_board_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	SELECT EXISTS (
+		SELECT 1 FROM boards b
+		WHERE b.id = p_board_id
+			AND (
+				NOT b.is_private
+				OR b.created_by = auth.uid()
+				OR EXISTS (
+					SELECT 1 FROM board_members m
+					WHERE m.board_id = b.id AND m.user_id = auth.uid()
+				)
+			)
+	);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_read_board(uuid) TO anon, authenticated;
+
+-- The creator is the first member, and private boards start with a code
+CREATE OR REPLACE FUNCTION public.set_up_new_board()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	IF NEW.created_by IS NOT NULL THEN
+		INSERT INTO board_members (board_id, user_id) VALUES (NEW.id, NEW.created_by);
+	END IF;
+
+	IF NEW.is_private THEN
+		INSERT INTO board_join_codes (board_id, code) VALUES (NEW.id, generate_join_code());
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_up_new_board
+AFTER INSERT ON public.boards
+FOR EACH ROW EXECUTE FUNCTION public.set_up_new_board();
+
+DROP POLICY "Boards are readable by everyone" ON public.boards;
+
+CREATE POLICY "Public boards, and private boards to their members, are readable"
+ON public.boards FOR SELECT
+TO anon, authenticated
+USING (public.can_read_board(id));
+
+CREATE POLICY "Notes are readable on boards the reader can see"
+ON public.notes AS RESTRICTIVE FOR SELECT
+TO anon, authenticated
+USING (public.can_read_board(board_id));
+
+CREATE POLICY "Notes are posted to boards the poster can see"
+ON public.notes AS RESTRICTIVE FOR INSERT
+TO anon, authenticated
+WITH CHECK (public.can_read_board(board_id));
+
+-- The view runs with its owner's rights, so it checks board access itself
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'url' END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'thumbnail_url' END AS image_thumbnail_url,
+	CASE WHEN n.is_hidden THEN '[]'::jsonb ELSE a.attachments END AS attachments,
+	n.board_id
+FROM public.notes n
+CROSS JOIN LATERAL (
+	SELECT public.get_note_attachments(n.id) AS attachments
+) a
+WHERE public.can_read_board(n.board_id);
+
+-- Joins a private board by slug and code. Returns the board's ID.
+CREATE OR REPLACE FUNCTION public.join_board(p_slug text, p_code text)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	joined_board_id uuid;
+BEGIN
+	IF auth.uid() IS NULL THEN
+		RAISE EXCEPTION 'Sign in to join a board' USING ERRCODE = '42501';
+	END IF;
+
+	SELECT b.id INTO joined_board_id
+	FROM boards b
+	JOIN board_join_codes c ON c.board_id = b.id
+	WHERE b.slug = p_slug
+		AND c.code = upper(regexp_replace(p_code, '[^0-9A-Za-z]', '', 'g'));
+
+	IF joined_board_id IS NULL THEN
+		RAISE EXCEPTION 'invalid_join_code'
+			USING ERRCODE = '22023', HINT = 'That code doesn''t open this board. Ask for a new invite.';
+	END IF;
+
+	INSERT INTO board_members (board_id, user_id)
+	VALUES (joined_board_id, auth.uid())
+	ON CONFLICT DO NOTHING;
+
+	RETURN joined_board_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_board(text, text) TO authenticated;
+
+-- Replaces a private board's code; the old code and links stop working.
+-- Optionally removes everyone but the creator, who then need the new code.
+CREATE OR REPLACE FUNCTION public.rotate_board_code(
+	p_board_id uuid,
+	p_remove_members boolean DEFAULT false
+)
+RETURNS text
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	new_code text := generate_join_code();
+BEGIN
+	IF NOT EXISTS (
+		SELECT 1 FROM boards
+		WHERE id = p_board_id AND is_private AND created_by = auth.uid()
+	) THEN
+		RAISE EXCEPTION 'Only the creator of a private board can change its code'
+			USING ERRCODE = '42501';
+	END IF;
+
+	INSERT INTO board_join_codes (board_id, code)
+	VALUES (p_board_id, new_code)
+	ON CONFLICT (board_id) DO UPDATE
+	SET code = EXCLUDED.code, created_at = now();
+
+	IF p_remove_members THEN
+		DELETE FROM board_members
+		WHERE board_id = p_board_id AND user_id <> auth.uid();
+	END IF;
+
+	RETURN new_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_board_code(uuid, boolean) TO authenticated;
+
+-- Switches joining off until a new code is issued with rotate_board_code
+CREATE OR REPLACE FUNCTION public.revoke_board_code(
+	p_board_id uuid,
+	p_remove_members boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	IF NOT EXISTS (
+		SELECT 1 FROM boards
+		WHERE id = p_board_id AND is_private AND created_by = auth.uid()
+	) THEN
+		RAISE EXCEPTION 'Only the creator of a private board can revoke its code'
+			USING ERRCODE = '42501';
+	END IF;
+
+	DELETE FROM board_join_codes WHERE board_id = p_board_id;
+
+	IF p_remove_members THEN
+		DELETE FROM board_members
+		WHERE board_id = p_board_id AND user_id <> auth.uid();
+	END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revoke_board_code(uuid, boolean) TO authenticated;
+
+-- Restoring an identity also carries over board memberships and ownership
+CREATE OR REPLACE FUNCTION public.transfer_session_activity(p_from_session text, p_to_session text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	UPDATE note_reactions r
+	SET session_id = p_to_session
+	WHERE r.session_id = p_from_session
+		AND NOT EXISTS (
+			SELECT 1 FROM note_reactions mine
+			WHERE mine.note_id = r.note_id
+				AND mine.kind = r.kind
+				AND mine.session_id = p_to_session
+		);
+
+	UPDATE reports r
+	SET session_id = p_to_session
+	WHERE r.session_id = p_from_session
+		AND NOT EXISTS (
+			SELECT 1 FROM reports mine
+			WHERE mine.note_id = r.note_id AND mine.session_id = p_to_session
+		);
+
+	IF is_session_banned(p_from_session) THEN
+		INSERT INTO banned_sessions (session_id, reason)
+		VALUES (p_to_session, 'Carried over from session ' || p_from_session)
+		ON CONFLICT (session_id) DO NOTHING;
+	END IF;
+
+	-- Legacy sessions were never auth users, so compare as text
+	INSERT INTO board_members (board_id, user_id)
+	SELECT m.board_id, p_to_session::uuid
+	FROM board_members m
+	WHERE m.user_id::text = p_from_session
+	ON CONFLICT DO NOTHING;
+
+	DELETE FROM board_members WHERE user_id::text = p_from_session;
+
+	UPDATE boards
+	SET created_by = p_to_session::uuid
+	WHERE created_by::text = p_from_session;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_session_activity(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,169 @@
+-- Notes can be scheduled to go up later and can expire. A scheduled note's
+-- created_at is the time it goes up, so it lands at the top of the board
+-- then; until a job publishes it only its author can see it. Expired notes
+-- are hidden right away and deleted by the same job (with their replies),
+-- which leaves their images to the cleanup-note-images function.
+ALTER TABLE public.notes
+ADD COLUMN published_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (published_at, expires_at) ON public.notes TO anon, authenticated;
+
+UPDATE public.notes SET published_at = created_at;
+
+CREATE INDEX notes_unpublished_idx
+ON public.notes (created_at)
+WHERE published_at IS NULL;
+
+CREATE INDEX notes_expires_at_idx
+ON public.notes (expires_at)
+WHERE expires_at IS NOT NULL;
+
+-- Whatever the client sends: past or missing post times mean "now", and
+-- only notes posted now are published straight away
+CREATE OR REPLACE FUNCTION public.schedule_note()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	IF NEW.created_at IS NULL OR NEW.created_at <= now() THEN
+		NEW.created_at := now();
+	ELSIF NEW.replying_to_id IS NOT NULL THEN
+		RAISE EXCEPTION 'invalid_schedule'
+			USING ERRCODE = '22023', HINT = 'Replies are always posted right away.';
+	ELSIF NEW.created_at > now() + interval '30 days' THEN
+		RAISE EXCEPTION 'invalid_schedule'
+			USING ERRCODE = '22023', HINT = 'Notes can be scheduled up to 30 days ahead.';
+	END IF;
+
+	IF NEW.expires_at IS NOT NULL AND NEW.expires_at < NEW.created_at + interval '5 minutes' THEN
+		RAISE EXCEPTION 'invalid_schedule'
+			USING ERRCODE = '22023', HINT = 'A note has to stay up for at least 5 minutes.';
+	END IF;
+
+	NEW.published_at := CASE WHEN NEW.created_at <= now() THEN now() END;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER schedule_note
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.schedule_note();
+
+CREATE POLICY "Scheduled notes are only readable by their author"
+ON public.notes AS RESTRICTIVE FOR SELECT
+TO anon, authenticated
+USING (published_at IS NOT NULL OR user_id = auth.uid());
+
+CREATE POLICY "Expired notes are not readable"
+ON public.notes AS RESTRICTIVE FOR SELECT
+TO anon, authenticated
+USING (expires_at IS NULL OR expires_at > now());
+
+-- Publishing is an update, so realtime subscribers hear about the note
+-- when it goes up rather than when it was written
+CREATE OR REPLACE FUNCTION public.publish_and_expire_notes()
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	UPDATE notes
+	SET published_at = now()
+	WHERE published_at IS NULL AND created_at <= now();
+
+	DELETE FROM notes
+	WHERE expires_at <= now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_and_expire_notes() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+	'publish-and-expire-notes',
+	'* * * * *',
+	'SELECT public.publish_and_expire_notes()'
+);
+
+DROP FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid);
+
+CREATE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL,
+	p_publish_at timestamptz DEFAULT NULL,
+	p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+BEGIN
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	INSERT INTO notes (
+		message, color, to_recipient, from_sender, replying_to_id, session_id,
+		board_id, created_at, expires_at
+	)
+	VALUES (
+		p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text,
+		p_board_id, coalesce(p_publish_at, now()), p_expires_at
+	)
+	RETURNING id INTO new_note_id;
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN new_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz) TO authenticated;
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'url' END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden THEN NULL ELSE a.attachments -> 0 ->> 'thumbnail_url' END AS image_thumbnail_url,
+	CASE WHEN n.is_hidden THEN '[]'::jsonb ELSE a.attachments END AS attachments,
+	n.board_id,
+	n.published_at,
+	n.expires_at
+FROM public.notes n
+CROSS JOIN LATERAL (
+	SELECT public.get_note_attachments(n.id) AS attachments
+) a
+WHERE public.can_read_board(n.board_id)
+	AND (n.published_at IS NOT NULL OR n.user_id = auth.uid())
+	AND (n.expires_at IS NULL OR n.expires_at > now());
@@ -0,0 +1,193 @@
+-- Sealed notes are time capsules: until sealed_until passes nobody, not even
+-- the author, can read their message, sender or images. The table hides
+-- them outright (realtime payloads carry whole rows, so this also keeps
+-- inserts off the wire) and the feed shows them as an envelope with only
+-- the To: line. Images only reach clients through the feed, which blanks
+-- them too; get_note_attachments is not callable on its own. A job marks
+-- them opened, which is the update subscribers hear about.
+ALTER TABLE public.notes
+ADD COLUMN sealed_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN opened_at TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (sealed_until, opened_at) ON public.notes TO anon, authenticated;
+
+CREATE INDEX notes_sealed_until_idx
+ON public.notes (sealed_until)
+WHERE sealed_until IS NOT NULL AND opened_at IS NULL;
+
+-- Runs after schedule_note, so created_at is already the time the note
+-- goes up
+CREATE OR REPLACE FUNCTION public.seal_note()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	NEW.opened_at := NULL;
+
+	IF NEW.sealed_until IS NULL THEN
+		RETURN NEW;
+	END IF;
+
+	IF NEW.replying_to_id IS NOT NULL THEN
+		RAISE EXCEPTION 'invalid_schedule'
+			USING ERRCODE = '22023', HINT = 'Replies cannot be sealed.';
+	END IF;
+
+	IF NEW.sealed_until <= NEW.created_at THEN
+		RAISE EXCEPTION 'invalid_schedule'
+			USING ERRCODE = '22023', HINT = 'A sealed note has to open after it goes up.';
+	END IF;
+
+	IF NEW.sealed_until > NEW.created_at + interval '365 days' THEN
+		RAISE EXCEPTION 'invalid_schedule'
+			USING ERRCODE = '22023', HINT = 'Notes can be sealed for up to a year.';
+	END IF;
+
+	IF NEW.expires_at IS NOT NULL AND NEW.expires_at < NEW.sealed_until + interval '5 minutes' THEN
+		RAISE EXCEPTION 'invalid_schedule'
+			USING ERRCODE = '22023', HINT = 'A sealed note has to stay up for at least 5 minutes after it opens.';
+	END IF;
+
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seal_note
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.seal_note();
+
+CREATE POLICY "Sealed notes are not readable until they open"
+ON public.notes AS RESTRICTIVE FOR SELECT
+TO anon, authenticated
+USING (sealed_until IS NULL OR sealed_until <= now());
+
+-- The author can't see a sealed note either, so attaching its images has to
+-- check ownership past the notes policies
+CREATE OR REPLACE FUNCTION public.owns_note(p_note_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	SELECT EXISTS (
+		SELECT 1 FROM notes
+		WHERE id = p_note_id AND user_id IS NOT NULL AND user_id = auth.uid()
+	);
+$$;
+
+DROP POLICY "Authors can attach images to their notes" ON public.note_attachments;
+
+CREATE POLICY "Authors can attach images to their notes"
+ON public.note_attachments FOR INSERT
+TO authenticated
+WITH CHECK (public.owns_note(note_id));
+
+CREATE OR REPLACE FUNCTION public.open_sealed_notes()
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	UPDATE notes
+	SET opened_at = now()
+	WHERE sealed_until <= now() AND opened_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_sealed_notes() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+	'open-sealed-notes',
+	'* * * * *',
+	'SELECT public.open_sealed_notes()'
+);
+
+DROP FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz);
+
+CREATE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL,
+	p_publish_at timestamptz DEFAULT NULL,
+	p_expires_at timestamptz DEFAULT NULL,
+	p_sealed_until timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+BEGIN
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	-- The id is generated here because a sealed note can't be read back
+	-- through RETURNING until it opens
+	new_note_id := gen_random_uuid();
+
+	INSERT INTO notes (
+		id, message, color, to_recipient, from_sender, replying_to_id, session_id,
+		board_id, created_at, expires_at, sealed_until
+	)
+	VALUES (
+		new_note_id, p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text,
+		p_board_id, coalesce(p_publish_at, now()), p_expires_at, p_sealed_until
+	);
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN new_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz) TO authenticated;
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE a.attachments -> 0 ->> 'url' END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE a.attachments -> 0 ->> 'thumbnail_url' END AS image_thumbnail_url,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN '[]'::jsonb ELSE a.attachments END AS attachments,
+	n.board_id,
+	n.published_at,
+	n.expires_at,
+	n.sealed_until,
+	s.is_sealed
+FROM public.notes n
+CROSS JOIN LATERAL (
+	SELECT coalesce(n.sealed_until > now(), false) AS is_sealed
+) s
+CROSS JOIN LATERAL (
+	SELECT public.get_note_attachments(n.id) AS attachments
+) a
+WHERE public.can_read_board(n.board_id)
+	AND (n.published_at IS NOT NULL OR n.user_id = auth.uid())
+	AND (n.expires_at IS NULL OR n.expires_at > now());
@@ -0,0 +1,35 @@
+-- Each board sets how long its notes can be; existing boards keep the 150
+-- characters the note form used to allow. Markdown markup counts towards it.
+ALTER TABLE public.boards
+ADD COLUMN max_message_length INTEGER NOT NULL DEFAULT 150
+	CHECK (max_message_length BETWEEN 50 AND 1000);
+
+GRANT SELECT (max_message_length) ON public.boards TO anon, authenticated;
+GRANT INSERT (max_message_length) ON public.boards TO authenticated;
+
+-- Runs after set_note_board, so replies are checked against the board of
+-- the thread they join
+CREATE OR REPLACE FUNCTION public.validate_note_message()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	max_length integer;
+BEGIN
+	SELECT max_message_length INTO max_length
+	FROM boards
+	WHERE id = NEW.board_id;
+
+	IF char_length(NEW.message) > max_length THEN
+		RAISE EXCEPTION 'message_too_long'
+			USING ERRCODE = '22023',
+			HINT = format('Notes on this board can be up to %s characters.', max_length);
+	END IF;
+
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_note_message
+BEFORE INSERT OR UPDATE OF message ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.validate_note_message();
@@ -0,0 +1,121 @@
+-- Authors can put a content warning on a note and flag its images as
+-- sensitive; the board blurs them until the viewer chooses to look. The
+-- warning is searchable, so people can find (or steer clear of) a topic.
+ALTER TABLE public.notes
+ADD COLUMN content_warning TEXT CHECK (char_length(content_warning) BETWEEN 1 AND 60),
+ADD COLUMN has_sensitive_image BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.notes DROP COLUMN search_vector;
+
+ALTER TABLE public.notes
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+	setweight(to_tsvector('simple', coalesce(short_id, '')), 'A') ||
+	setweight(to_tsvector('simple', coalesce(to_recipient, '')), 'A') ||
+	setweight(to_tsvector('simple', coalesce(from_sender, '')), 'B') ||
+	setweight(to_tsvector('simple', coalesce(content_warning, '')), 'B') ||
+	setweight(to_tsvector('simple', coalesce(message, '')), 'C')
+) STORED;
+
+CREATE INDEX notes_search_vector_idx ON public.notes USING GIN (search_vector);
+
+GRANT SELECT (content_warning, has_sensitive_image, search_vector) ON public.notes TO anon, authenticated;
+
+DROP FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz);
+
+CREATE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL,
+	p_publish_at timestamptz DEFAULT NULL,
+	p_expires_at timestamptz DEFAULT NULL,
+	p_sealed_until timestamptz DEFAULT NULL,
+	p_content_warning text DEFAULT NULL,
+	p_has_sensitive_image boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+BEGIN
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	-- The id is generated here because a sealed note can't be read back
+	-- through RETURNING until it opens
+	new_note_id := gen_random_uuid();
+
+	INSERT INTO notes (
+		id, message, color, to_recipient, from_sender, replying_to_id, session_id,
+		board_id, created_at, expires_at, sealed_until,
+		content_warning, has_sensitive_image
+	)
+	VALUES (
+		new_note_id, p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text,
+		p_board_id, coalesce(p_publish_at, now()), p_expires_at, p_sealed_until,
+		nullif(trim(p_content_warning), ''),
+		coalesce(p_has_sensitive_image, false) AND coalesce(array_length(p_image_urls, 1), 0) > 0
+	);
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN new_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz, text, boolean) TO authenticated;
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE a.attachments -> 0 ->> 'url' END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE a.attachments -> 0 ->> 'thumbnail_url' END AS image_thumbnail_url,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN '[]'::jsonb ELSE a.attachments END AS attachments,
+	n.board_id,
+	n.published_at,
+	n.expires_at,
+	n.sealed_until,
+	s.is_sealed,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.content_warning END AS content_warning,
+	n.has_sensitive_image
+FROM public.notes n
+CROSS JOIN LATERAL (
+	SELECT coalesce(n.sealed_until > now(), false) AS is_sealed
+) s
+CROSS JOIN LATERAL (
+	SELECT public.get_note_attachments(n.id) AS attachments
+) a
+WHERE public.can_read_board(n.board_id)
+	AND (n.published_at IS NOT NULL OR n.user_id = auth.uid())
+	AND (n.expires_at IS NULL OR n.expires_at > now());
@@ -0,0 +1,377 @@
+-- Content filter for new and edited notes: a moderator-managed word list,
+-- links and stretched-out words ("sooooo"). Each board picks what happens
+-- when a note trips it: reject the note, mask the offending text, or hold
+-- the note for review (hidden, in the moderation queue). Posting the same
+-- message twice in a day is always rejected.
+CREATE TABLE public.blocked_words (
+	word TEXT PRIMARY KEY CHECK (word ~ '^[a-z0-9]+( [a-z0-9]+)*$'),
+	created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.blocked_words ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view blocked words"
+ON public.blocked_words FOR SELECT
+TO authenticated
+USING (public.is_moderator());
+
+CREATE POLICY "Moderators can add blocked words"
+ON public.blocked_words FOR INSERT
+TO authenticated
+WITH CHECK (public.is_moderator());
+
+CREATE POLICY "Moderators can remove blocked words"
+ON public.blocked_words FOR DELETE
+TO authenticated
+USING (public.is_moderator());
+
+GRANT SELECT, DELETE ON public.blocked_words TO authenticated;
+GRANT INSERT (word) ON public.blocked_words TO authenticated;
+
+ALTER TABLE public.boards
+ADD COLUMN filter_action TEXT NOT NULL DEFAULT 'reject'
+	CHECK (filter_action IN ('reject', 'mask', 'hold'));
+
+GRANT SELECT (filter_action) ON public.boards TO anon, authenticated;
+GRANT INSERT (filter_action) ON public.boards TO authenticated;
+
+-- Why a held note was hidden, shown to its author and to moderators. Like
+-- user_id it stays out of the column grants; the feed shows it to the author.
+ALTER TABLE public.notes
+ADD COLUMN held_reason TEXT;
+
+-- Words only contain letters, digits and single spaces (see the check
+-- above), so they can go into a pattern as they are
+CREATE OR REPLACE FUNCTION public.find_filtered_content(p_text text)
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+	SELECT CASE
+		WHEN p_text ~* '(https?://|www\.)\S+|\m[a-z0-9-]+\.(com|net|org|io|co|me|ly|gg|app|dev|xyz|info|id)\M'
+			THEN 'Links aren''t allowed on this board.'
+		WHEN p_text ~ '(.)\1{4,}'
+			THEN 'Please don''t repeat the same character over and over.'
+		WHEN EXISTS (
+			SELECT 1 FROM blocked_words
+			WHERE p_text ~* ('\m' || word || '\M')
+		)
+			THEN 'Your note contains a word that isn''t allowed here.'
+	END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mask_filtered_content(p_text text)
+RETURNS text
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	masked text := p_text;
+	blocked text;
+BEGIN
+	IF masked IS NULL THEN
+		RETURN NULL;
+	END IF;
+
+	masked := regexp_replace(
+		masked,
+		'(https?://|www\.)\S+|\m[a-z0-9-]+\.(com|net|org|io|co|me|ly|gg|app|dev|xyz|info|id)\M\S*',
+		'[link removed]',
+		'gi'
+	);
+	masked := regexp_replace(masked, '(.)\1{4,}', '\1\1\1', 'g');
+
+	FOR blocked IN SELECT word FROM blocked_words LOOP
+		masked := regexp_replace(
+			masked,
+			'\m' || blocked || '\M',
+			repeat('*', char_length(blocked)),
+			'gi'
+		);
+	END LOOP;
+
+	RETURN masked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_filtered_content(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mask_filtered_content(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.validate_note_message()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	board boards%ROWTYPE;
+	reason text;
+BEGIN
+	SELECT * INTO board
+	FROM boards
+	WHERE id = NEW.board_id;
+
+	IF char_length(NEW.message) > board.max_message_length THEN
+		RAISE EXCEPTION 'message_too_long'
+			USING ERRCODE = '22023',
+			HINT = format('Notes on this board can be up to %s characters.', board.max_message_length);
+	END IF;
+
+	IF TG_OP = 'INSERT' AND EXISTS (
+		SELECT 1 FROM notes
+		WHERE user_id = NEW.user_id
+			AND lower(trim(message)) = lower(trim(NEW.message))
+			AND created_at > now() - interval '1 day'
+	) THEN
+		RAISE EXCEPTION 'note_rejected'
+			USING ERRCODE = '22023', HINT = 'You already posted this note.';
+	END IF;
+
+	reason := coalesce(
+		find_filtered_content(NEW.message),
+		find_filtered_content(NEW.to_recipient),
+		find_filtered_content(NEW.from_sender),
+		find_filtered_content(NEW.content_warning)
+	);
+
+	IF reason IS NULL THEN
+		RETURN NEW;
+	END IF;
+
+	CASE board.filter_action
+		WHEN 'mask' THEN
+			NEW.message := mask_filtered_content(NEW.message);
+			NEW.to_recipient := mask_filtered_content(NEW.to_recipient);
+			NEW.from_sender := mask_filtered_content(NEW.from_sender);
+			NEW.content_warning := mask_filtered_content(NEW.content_warning);
+		WHEN 'hold' THEN
+			NEW.is_hidden := true;
+			NEW.held_reason := reason;
+		ELSE
+			RAISE EXCEPTION 'note_rejected' USING ERRCODE = '22023', HINT = reason;
+	END CASE;
+
+	RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER validate_note_message ON public.notes;
+
+CREATE TRIGGER validate_note_message
+BEFORE INSERT OR UPDATE OF message, to_recipient, from_sender ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.validate_note_message();
+
+CREATE OR REPLACE VIEW public.notes_feed AS
+SELECT
+	n.id,
+	n.short_id,
+	n.color,
+	n.replying_to_id,
+	n.created_at,
+	n.updated_at,
+	n.is_hidden,
+	(n.user_id IS NOT NULL AND n.user_id = auth.uid()) AS is_own,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN '' ELSE n.message END AS message,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.to_recipient END AS to_recipient,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE n.from_sender END AS from_sender,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE a.attachments -> 0 ->> 'url' END AS image_url,
+	(
+		SELECT coalesce(jsonb_object_agg(r.kind, r.count), '{}'::jsonb)
+		FROM (
+			SELECT kind, count(*) AS count
+			FROM public.note_reactions
+			WHERE note_id = n.id
+			GROUP BY kind
+		) r
+	) AS reaction_counts,
+	public.get_note_replies_count(n.id) AS replies_count,
+	(
+		SELECT count(*) FROM public.reports r WHERE r.note_id = n.id
+	) AS report_count,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN NULL ELSE a.attachments -> 0 ->> 'thumbnail_url' END AS image_thumbnail_url,
+	CASE WHEN n.is_hidden OR s.is_sealed THEN '[]'::jsonb ELSE a.attachments END AS attachments,
+	n.board_id,
+	n.published_at,
+	n.expires_at,
+	n.sealed_until,
+	s.is_sealed,
+	CASE WHEN n.is_hidden THEN NULL ELSE n.content_warning END AS content_warning,
+	n.has_sensitive_image,
+	CASE WHEN n.user_id = auth.uid() THEN n.held_reason END AS held_reason
+FROM public.notes n
+CROSS JOIN LATERAL (
+	SELECT coalesce(n.sealed_until > now(), false) AS is_sealed
+) s
+CROSS JOIN LATERAL (
+	SELECT public.get_note_attachments(n.id) AS attachments
+) a
+WHERE public.can_read_board(n.board_id)
+	AND (n.published_at IS NOT NULL OR n.user_id = auth.uid())
+	AND (n.expires_at IS NULL OR n.expires_at > now());
+
+-- Returns whether the note was held, which the author can't otherwise tell:
+-- held notes are hidden, so only the feed can read them back
+DROP FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz, text, boolean);
+
+CREATE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL,
+	p_publish_at timestamptz DEFAULT NULL,
+	p_expires_at timestamptz DEFAULT NULL,
+	p_sealed_until timestamptz DEFAULT NULL,
+	p_content_warning text DEFAULT NULL,
+	p_has_sensitive_image boolean DEFAULT false
+)
+RETURNS TABLE (note_id uuid, held_reason text)
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+BEGIN
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	-- The id is generated here because a sealed note can't be read back
+	-- through RETURNING until it opens
+	new_note_id := gen_random_uuid();
+
+	INSERT INTO notes (
+		id, message, color, to_recipient, from_sender, replying_to_id, session_id,
+		board_id, created_at, expires_at, sealed_until,
+		content_warning, has_sensitive_image
+	)
+	VALUES (
+		new_note_id, p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text,
+		p_board_id, coalesce(p_publish_at, now()), p_expires_at, p_sealed_until,
+		nullif(trim(p_content_warning), ''),
+		coalesce(p_has_sensitive_image, false) AND coalesce(array_length(p_image_urls, 1), 0) > 0
+	);
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN QUERY
+	SELECT new_note_id, f.held_reason
+	FROM notes_feed f
+	WHERE f.id = new_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz, text, boolean) TO authenticated;
+
+DROP FUNCTION public.get_moderation_queue();
+
+CREATE FUNCTION public.get_moderation_queue()
+RETURNS TABLE (
+	id uuid,
+	short_id text,
+	message text,
+	to_recipient text,
+	from_sender text,
+	image_url text,
+	session_id text,
+	replying_to_id uuid,
+	created_at timestamptz,
+	is_hidden boolean,
+	report_count bigint,
+	first_reported_at timestamptz,
+	last_reported_at timestamptz,
+	session_banned boolean,
+	held_reason text
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	IF NOT is_moderator() THEN
+		RAISE EXCEPTION 'Only moderators can view the moderation queue'
+			USING ERRCODE = '42501';
+	END IF;
+
+	RETURN QUERY
+	SELECT
+		n.id,
+		n.short_id::text,
+		n.message,
+		n.to_recipient,
+		n.from_sender,
+		(
+			SELECT a.image_url FROM note_attachments a
+			WHERE a.note_id = n.id
+			ORDER BY a.position
+			LIMIT 1
+		),
+		n.session_id::text,
+		n.replying_to_id::uuid,
+		n.created_at,
+		n.is_hidden,
+		count(r.id) AS report_count,
+		min(r.created_at) AS first_reported_at,
+		max(r.created_at) AS last_reported_at,
+		is_session_banned(n.session_id::text) AS session_banned,
+		n.held_reason
+	FROM notes n
+	LEFT JOIN reports r ON r.note_id = n.id
+	GROUP BY n.id
+	HAVING count(r.id) > 0 OR n.is_hidden
+	ORDER BY count(r.id) DESC, max(r.created_at) DESC NULLS LAST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_moderation_queue() TO authenticated;
+
+-- Restoring a held note approves it
+CREATE OR REPLACE FUNCTION public.moderate_note(
+	p_note_id uuid,
+	p_action text,
+	p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	target notes%ROWTYPE;
+BEGIN
+	IF NOT is_moderator() THEN
+		RAISE EXCEPTION 'Only moderators can moderate notes'
+			USING ERRCODE = '42501';
+	END IF;
+
+	SELECT * INTO target FROM notes WHERE id = p_note_id;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Note % not found', p_note_id USING ERRCODE = 'P0002';
+	END IF;
+
+	CASE p_action
+		WHEN 'restore' THEN
+			UPDATE notes SET is_hidden = false, held_reason = NULL WHERE id = p_note_id;
+			DELETE FROM reports WHERE note_id = p_note_id;
+		WHEN 'delete' THEN
+			DELETE FROM notes WHERE id = p_note_id;
+		WHEN 'ban' THEN
+			INSERT INTO banned_sessions (session_id, reason, banned_by)
+			VALUES (target.session_id::text, p_reason, auth.uid())
+			ON CONFLICT (session_id) DO NOTHING;
+			UPDATE notes SET is_hidden = true WHERE id = p_note_id;
+		ELSE
+			RAISE EXCEPTION 'Unknown moderation action: %', p_action
+				USING ERRCODE = '22023';
+	END CASE;
+
+	INSERT INTO moderation_actions (moderator_id, action, note_id, session_id, details)
+	VALUES (
+		auth.uid(),
+		p_action,
+		p_note_id,
+		target.session_id::text,
+		jsonb_build_object(
+			'reason', p_reason,
+			'short_id', target.short_id,
+			'message', target.message
+		)
+	);
+END;
+$$;
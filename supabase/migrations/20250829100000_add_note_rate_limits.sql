@@ -0,0 +1,119 @@
+-- Posting limits. Every note (and reply) counts against its session's
+-- buckets however it is inserted; the post-note Edge Function also counts
+-- it against a bucket for the poster's IP address, hashed. The limits live
+-- in a table so they can be tuned without a deploy.
+CREATE TABLE public.rate_limits (
+	bucket TEXT NOT NULL CHECK (bucket IN ('session', 'ip')),
+	window_seconds INTEGER NOT NULL CHECK (window_seconds > 0),
+	max_posts INTEGER NOT NULL CHECK (max_posts > 0),
+	PRIMARY KEY (bucket, window_seconds)
+);
+
+INSERT INTO public.rate_limits (bucket, window_seconds, max_posts) VALUES
+	('session', 60, 3),
+	('session', 86400, 30),
+	('ip', 60, 10),
+	('ip', 86400, 100);
+
+CREATE TABLE public.rate_limit_hits (
+	id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+	bucket TEXT NOT NULL,
+	key TEXT NOT NULL,
+	created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX rate_limit_hits_key_idx
+ON public.rate_limit_hits (bucket, key, created_at DESC);
+
+-- Neither table is readable by clients
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- Records a post against a bucket, or raises rate_limited with the number
+-- of seconds until the oldest post in the window ages out as its detail
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(p_bucket text, p_key text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	rule record;
+	retry_at timestamptz;
+BEGIN
+	-- Two posts racing each other would otherwise both see room left
+	PERFORM pg_advisory_xact_lock(hashtext(p_bucket || ':' || p_key));
+
+	FOR rule IN
+		SELECT window_seconds, max_posts
+		FROM rate_limits
+		WHERE bucket = p_bucket
+		ORDER BY window_seconds DESC
+	LOOP
+		SELECT h.created_at + make_interval(secs => rule.window_seconds)
+		INTO retry_at
+		FROM rate_limit_hits h
+		WHERE h.bucket = p_bucket
+			AND h.key = p_key
+			AND h.created_at > now() - make_interval(secs => rule.window_seconds)
+		ORDER BY h.created_at DESC
+		OFFSET rule.max_posts - 1
+		LIMIT 1;
+
+		IF retry_at IS NOT NULL THEN
+			RAISE EXCEPTION 'rate_limited'
+				USING ERRCODE = '22023',
+				DETAIL = greatest(1, ceil(extract(epoch FROM retry_at - now())))::text,
+				HINT = format(
+					'%s can post up to %s notes %s.',
+					CASE p_bucket WHEN 'ip' THEN 'Your network' ELSE 'You' END,
+					rule.max_posts,
+					CASE rule.window_seconds
+						WHEN 60 THEN 'a minute'
+						WHEN 3600 THEN 'an hour'
+						WHEN 86400 THEN 'a day'
+						ELSE format('every %s seconds', rule.window_seconds)
+					END
+				);
+		END IF;
+	END LOOP;
+
+	INSERT INTO rate_limit_hits (bucket, key) VALUES (p_bucket, p_key);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hit_rate_limit(text, text) TO service_role;
+
+-- A note that is rejected further along rolls its hit back with it
+CREATE OR REPLACE FUNCTION public.rate_limit_note()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+	IF auth.uid() IS NOT NULL THEN
+		PERFORM hit_rate_limit('session', auth.uid()::text);
+	END IF;
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rate_limit_note
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.rate_limit_note();
+
+CREATE OR REPLACE FUNCTION public.prune_rate_limit_hits()
+RETURNS void
+LANGUAGE sql SECURITY DEFINER SET search_path = public
+AS $$
+	DELETE FROM rate_limit_hits
+	WHERE created_at < now() - make_interval(
+		secs => (SELECT coalesce(max(window_seconds), 0) FROM rate_limits)
+	);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prune_rate_limit_hits() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+	'prune-rate-limit-hits',
+	'43 * * * *',
+	'SELECT public.prune_rate_limit_hits()'
+);
@@ -0,0 +1,178 @@
+-- Proof of work instead of a CAPTCHA. issue_note_challenge hands the
+-- poster a challenge and a difficulty; their browser looks for a nonce
+-- whose SHA-256 of '<challenge id>:<nonce>' starts with that many zero
+-- bits, and create_note spends the solved challenge before inserting.
+-- The more a session has posted in the last hour, the harder its next
+-- challenge.
+CREATE TABLE public.note_challenges (
+	id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+	user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+	difficulty INTEGER NOT NULL CHECK (difficulty BETWEEN 1 AND 32),
+	expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '15 minutes'
+);
+
+-- Only reachable through the functions below
+ALTER TABLE public.note_challenges ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.note_challenges FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.issue_note_challenge()
+RETURNS TABLE (challenge_id uuid, difficulty integer, expires_at timestamptz)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	recent_posts integer;
+BEGIN
+	IF auth.uid() IS NULL THEN
+		RAISE EXCEPTION 'not_signed_in' USING ERRCODE = '42501';
+	END IF;
+
+	SELECT count(*) INTO recent_posts
+	FROM rate_limit_hits h
+	WHERE h.bucket = 'session'
+		AND h.key = auth.uid()::text
+		AND h.created_at > now() - interval '1 hour';
+
+	-- 16 bits takes well under a second; each extra bit doubles that
+	RETURN QUERY
+	INSERT INTO note_challenges (user_id, difficulty)
+	VALUES (auth.uid(), least(16 + recent_posts / 2, 20))
+	RETURNING note_challenges.id, note_challenges.difficulty, note_challenges.expires_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_note_challenge() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_note_challenge() TO authenticated;
+
+-- Marks the transaction as allowed to insert one note. A challenge that
+-- fails to verify, or a note that is rejected afterwards, is rolled back
+-- along with everything else and can be tried again.
+CREATE OR REPLACE FUNCTION public.spend_note_challenge(p_challenge_id uuid, p_nonce text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	spent_difficulty integer;
+BEGIN
+	DELETE FROM note_challenges c
+	WHERE c.id = p_challenge_id
+		AND c.user_id = auth.uid()
+		AND c.expires_at > now()
+	RETURNING c.difficulty INTO spent_difficulty;
+
+	IF spent_difficulty IS NULL
+		OR p_nonce IS NULL
+		OR char_length(p_nonce) > 20
+		OR substring(
+			('x' || encode(sha256(convert_to(p_challenge_id::text || ':' || p_nonce, 'UTF8')), 'hex'))::bit(256)::text
+			FOR spent_difficulty
+		) <> repeat('0', spent_difficulty)
+	THEN
+		RAISE EXCEPTION 'challenge_failed'
+			USING ERRCODE = '22023', HINT = 'Your browser''s posting check expired or didn''t go through. Please try again.';
+	END IF;
+
+	PERFORM set_config('app.note_challenge', 'spent', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.spend_note_challenge(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.spend_note_challenge(uuid, text) TO authenticated;
+
+-- Clients can't set the flag themselves, so a note inserted straight into
+-- the table (rather than through create_note) is refused
+CREATE OR REPLACE FUNCTION public.require_note_challenge()
+RETURNS trigger
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+	IF auth.uid() IS NOT NULL
+		AND coalesce(current_setting('app.note_challenge', true), '') <> 'spent'
+	THEN
+		RAISE EXCEPTION 'challenge_failed'
+			USING ERRCODE = '22023', HINT = 'Notes have to be posted from the board.';
+	END IF;
+
+	PERFORM set_config('app.note_challenge', '', true);
+	RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_note_challenge
+BEFORE INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.require_note_challenge();
+
+CREATE OR REPLACE FUNCTION public.prune_note_challenges()
+RETURNS void
+LANGUAGE sql SECURITY DEFINER SET search_path = public
+AS $$
+	DELETE FROM note_challenges
+	WHERE expires_at <= now();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prune_note_challenges() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+	'prune-note-challenges',
+	'47 * * * *',
+	'SELECT public.prune_note_challenges()'
+);
+
+DROP FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz, text, boolean);
+
+CREATE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL,
+	p_publish_at timestamptz DEFAULT NULL,
+	p_expires_at timestamptz DEFAULT NULL,
+	p_sealed_until timestamptz DEFAULT NULL,
+	p_content_warning text DEFAULT NULL,
+	p_has_sensitive_image boolean DEFAULT false,
+	p_challenge_id uuid DEFAULT NULL,
+	p_nonce text DEFAULT NULL
+)
+RETURNS TABLE (note_id uuid, held_reason text)
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+BEGIN
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	PERFORM spend_note_challenge(p_challenge_id, p_nonce);
+
+	-- The id is generated here because a sealed note can't be read back
+	-- through RETURNING until it opens
+	new_note_id := gen_random_uuid();
+
+	INSERT INTO notes (
+		id, message, color, to_recipient, from_sender, replying_to_id, session_id,
+		board_id, created_at, expires_at, sealed_until,
+		content_warning, has_sensitive_image
+	)
+	VALUES (
+		new_note_id, p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text,
+		p_board_id, coalesce(p_publish_at, now()), p_expires_at, p_sealed_until,
+		nullif(trim(p_content_warning), ''),
+		coalesce(p_has_sensitive_image, false) AND coalesce(array_length(p_image_urls, 1), 0) > 0
+	);
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN QUERY
+	SELECT new_note_id, f.held_reason
+	FROM notes_feed f
+	WHERE f.id = new_note_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz, text, boolean, uuid, text) TO authenticated;
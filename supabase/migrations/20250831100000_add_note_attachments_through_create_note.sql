@@ -0,0 +1,96 @@
+-- Attachments are only ever added by create_note, alongside the note they
+-- belong to; clients could otherwise attach any unused upload of theirs to
+-- any of their notes at any time. create_note now runs with its owner's
+-- rights so it can insert them, which also skips the notes insert policies,
+-- so it checks the same things itself and becomes the only way to post.
+DROP POLICY "Authors can attach images to their notes" ON public.note_attachments;
+REVOKE INSERT ON public.note_attachments FROM anon, authenticated;
+
+DO $$
+DECLARE
+	policy record;
+BEGIN
+	FOR policy IN
+		SELECT policyname FROM pg_policies
+		WHERE schemaname = 'public' AND tablename = 'notes' AND cmd = 'INSERT'
+	LOOP
+		EXECUTE format('DROP POLICY %I ON public.notes', policy.policyname);
+	END LOOP;
+END;
+$$;
+
+REVOKE INSERT ON public.notes FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL,
+	p_publish_at timestamptz DEFAULT NULL,
+	p_expires_at timestamptz DEFAULT NULL,
+	p_sealed_until timestamptz DEFAULT NULL,
+	p_content_warning text DEFAULT NULL,
+	p_has_sensitive_image boolean DEFAULT false,
+	p_challenge_id uuid DEFAULT NULL,
+	p_nonce text DEFAULT NULL
+)
+RETURNS TABLE (note_id uuid, held_reason text)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+	new_board_id uuid;
+BEGIN
+	IF auth.uid() IS NULL THEN
+		RAISE EXCEPTION 'Sign in to post notes' USING ERRCODE = '42501';
+	END IF;
+
+	IF is_session_banned(auth.uid()::text) THEN
+		RAISE EXCEPTION 'note_rejected'
+			USING ERRCODE = '22023', HINT = 'This browser can no longer post notes.';
+	END IF;
+
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	PERFORM spend_note_challenge(p_challenge_id, p_nonce);
+
+	new_note_id := gen_random_uuid();
+
+	INSERT INTO notes (
+		id, message, color, to_recipient, from_sender, replying_to_id, session_id,
+		board_id, created_at, expires_at, sealed_until,
+		content_warning, has_sensitive_image
+	)
+	VALUES (
+		new_note_id, p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text,
+		p_board_id, coalesce(p_publish_at, now()), p_expires_at, p_sealed_until,
+		nullif(trim(p_content_warning), ''),
+		coalesce(p_has_sensitive_image, false) AND coalesce(array_length(p_image_urls, 1), 0) > 0
+	)
+	RETURNING board_id INTO new_board_id;
+
+	-- Checked after the insert because replies take their parent's board
+	IF NOT can_read_board(new_board_id) THEN
+		RAISE EXCEPTION 'Notes can only be posted to boards you can see'
+			USING ERRCODE = '42501';
+	END IF;
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	RETURN QUERY
+	SELECT new_note_id, f.held_reason
+	FROM notes_feed f
+	WHERE f.id = new_note_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz, text, boolean, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_note(text, text, text, text, uuid, text[], uuid, timestamptz, timestamptz, timestamptz, text, boolean, uuid, text) TO authenticated;
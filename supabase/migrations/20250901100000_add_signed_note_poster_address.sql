@@ -0,0 +1,112 @@
+-- Only the post-note Edge Function can post notes. It sees the poster's
+-- address, which the database can't, and passes a hash of it to create_note
+-- along with an HMAC of '<user id>:<address hash>' keyed with a secret it
+-- shares with the database (post_note_secret in Vault). A direct call to
+-- create_note has no valid signature and is refused, so the per-IP limit
+-- can't be skipped. The address is counted in the same transaction, after
+-- the note is in, so a note that is refused doesn't use up the limit.
+CREATE OR REPLACE FUNCTION public.get_note_poster_address()
+RETURNS text
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	headers json := nullif(current_setting('request.headers', true), '')::json;
+	address text := headers ->> 'x-post-note-address';
+	secret text;
+BEGIN
+	SELECT decrypted_secret INTO secret
+	FROM vault.decrypted_secrets
+	WHERE name = 'post_note_secret';
+
+	IF address IS NULL
+		OR secret IS NULL
+		OR headers ->> 'x-post-note-signature' IS DISTINCT FROM encode(
+			extensions.hmac(auth.uid()::text || ':' || address, secret, 'sha256'),
+			'hex'
+		)
+	THEN
+		RAISE EXCEPTION 'Notes can only be posted through the post-note function'
+			USING ERRCODE = '42501';
+	END IF;
+
+	RETURN address;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_note_poster_address() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_note(
+	p_message text,
+	p_color text,
+	p_to_recipient text DEFAULT NULL,
+	p_from_sender text DEFAULT NULL,
+	p_replying_to_id uuid DEFAULT NULL,
+	p_image_urls text[] DEFAULT '{}',
+	p_board_id uuid DEFAULT NULL,
+	p_publish_at timestamptz DEFAULT NULL,
+	p_expires_at timestamptz DEFAULT NULL,
+	p_sealed_until timestamptz DEFAULT NULL,
+	p_content_warning text DEFAULT NULL,
+	p_has_sensitive_image boolean DEFAULT false,
+	p_challenge_id uuid DEFAULT NULL,
+	p_nonce text DEFAULT NULL
+)
+RETURNS TABLE (note_id uuid, held_reason text)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	new_note_id uuid;
+	new_board_id uuid;
+	poster_address text;
+BEGIN
+	IF auth.uid() IS NULL THEN
+		RAISE EXCEPTION 'Sign in to post notes' USING ERRCODE = '42501';
+	END IF;
+
+	IF is_session_banned(auth.uid()::text) THEN
+		RAISE EXCEPTION 'note_rejected'
+			USING ERRCODE = '22023', HINT = 'This browser can no longer post notes.';
+	END IF;
+
+	poster_address := get_note_poster_address();
+
+	IF coalesce(array_length(p_image_urls, 1), 0) > 4 THEN
+		RAISE EXCEPTION 'too_many_attachments'
+			USING ERRCODE = '22023', HINT = 'A note can have up to 4 images.';
+	END IF;
+
+	PERFORM spend_note_challenge(p_challenge_id, p_nonce);
+
+	new_note_id := gen_random_uuid();
+
+	INSERT INTO notes (
+		id, message, color, to_recipient, from_sender, replying_to_id, session_id,
+		board_id, created_at, expires_at, sealed_until,
+		content_warning, has_sensitive_image
+	)
+	VALUES (
+		new_note_id, p_message, p_color, p_to_recipient, p_from_sender, p_replying_to_id, auth.uid()::text,
+		p_board_id, coalesce(p_publish_at, now()), p_expires_at, p_sealed_until,
+		nullif(trim(p_content_warning), ''),
+		coalesce(p_has_sensitive_image, false) AND coalesce(array_length(p_image_urls, 1), 0) > 0
+	)
+	RETURNING board_id INTO new_board_id;
+
+	-- Checked after the insert because replies take their parent's board
+	IF NOT can_read_board(new_board_id) THEN
+		RAISE EXCEPTION 'Notes can only be posted to boards you can see'
+			USING ERRCODE = '42501';
+	END IF;
+
+	INSERT INTO note_attachments (note_id, position, image_url)
+	SELECT new_note_id, u.ordinality - 1, u.url
+	FROM unnest(p_image_urls) WITH ORDINALITY AS u(url, ordinality);
+
+	PERFORM hit_rate_limit('ip', poster_address);
+
+	RETURN QUERY
+	SELECT new_note_id, f.held_reason
+	FROM notes_feed f
+	WHERE f.id = new_note_id;
+END;
+$$;
@@ -0,0 +1,138 @@
+-- Every anonymous sign-in is a new reporter, so counting sessions let one
+-- person hide any note alone. Reports now go through the report-note Edge
+-- Function, which passes the reporter's address hashed and signed like
+-- post-note does. The threshold counts distinct addresses, and each address
+-- can only file so many reports.
+ALTER TABLE public.reports
+ADD COLUMN reporter_address TEXT;
+
+ALTER TABLE public.rate_limits
+DROP CONSTRAINT rate_limits_bucket_check,
+ADD CONSTRAINT rate_limits_bucket_check CHECK (bucket IN ('session', 'ip', 'report_ip'));
+
+INSERT INTO public.rate_limits (bucket, window_seconds, max_posts) VALUES
+	('report_ip', 3600, 10),
+	('report_ip', 86400, 30);
+
+CREATE OR REPLACE FUNCTION public.get_note_poster_address()
+RETURNS text
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	headers json := nullif(current_setting('request.headers', true), '')::json;
+	address text := headers ->> 'x-post-note-address';
+	secret text;
+BEGIN
+	SELECT decrypted_secret INTO secret
+	FROM vault.decrypted_secrets
+	WHERE name = 'post_note_secret';
+
+	IF address IS NULL
+		OR secret IS NULL
+		OR headers ->> 'x-post-note-signature' IS DISTINCT FROM encode(
+			extensions.hmac(auth.uid()::text || ':' || address, secret, 'sha256'),
+			'hex'
+		)
+	THEN
+		RAISE EXCEPTION 'Notes can only be posted and reported through the Edge Functions'
+			USING ERRCODE = '42501';
+	END IF;
+
+	RETURN address;
+END;
+$$;
+
+-- Only the hint changes, to fit reports
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(p_bucket text, p_key text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	rule record;
+	retry_at timestamptz;
+BEGIN
+	-- Two posts racing each other would otherwise both see room left
+	PERFORM pg_advisory_xact_lock(hashtext(p_bucket || ':' || p_key));
+
+	FOR rule IN
+		SELECT window_seconds, max_posts
+		FROM rate_limits
+		WHERE bucket = p_bucket
+		ORDER BY window_seconds DESC
+	LOOP
+		SELECT h.created_at + make_interval(secs => rule.window_seconds)
+		INTO retry_at
+		FROM rate_limit_hits h
+		WHERE h.bucket = p_bucket
+			AND h.key = p_key
+			AND h.created_at > now() - make_interval(secs => rule.window_seconds)
+		ORDER BY h.created_at DESC
+		OFFSET rule.max_posts - 1
+		LIMIT 1;
+
+		IF retry_at IS NOT NULL THEN
+			RAISE EXCEPTION 'rate_limited'
+				USING ERRCODE = '22023',
+				DETAIL = greatest(1, ceil(extract(epoch FROM retry_at - now())))::text,
+				HINT = format(
+					'%s can %s up to %s notes %s.',
+					CASE p_bucket WHEN 'session' THEN 'You' ELSE 'Your network' END,
+					CASE p_bucket WHEN 'report_ip' THEN 'report' ELSE 'post' END,
+					rule.max_posts,
+					CASE rule.window_seconds
+						WHEN 60 THEN 'a minute'
+						WHEN 3600 THEN 'an hour'
+						WHEN 86400 THEN 'a day'
+						ELSE format('every %s seconds', rule.window_seconds)
+					END
+				);
+		END IF;
+	END LOOP;
+
+	INSERT INTO rate_limit_hits (bucket, key) VALUES (p_bucket, p_key);
+END;
+$$;
+
+-- Reports filed before this have no address and count by session
+CREATE OR REPLACE FUNCTION public.report_note(p_note_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+	caller text := auth.uid()::text;
+	reporter_address text;
+	inserted_count integer;
+	report_count integer;
+	threshold integer;
+BEGIN
+	IF caller IS NULL THEN
+		RAISE EXCEPTION 'Sign in to report notes' USING ERRCODE = '42501';
+	END IF;
+
+	reporter_address := get_note_poster_address();
+
+	INSERT INTO reports (note_id, session_id, reporter_address)
+	VALUES (p_note_id, caller, reporter_address)
+	ON CONFLICT (note_id, session_id) DO NOTHING;
+
+	GET DIAGNOSTICS inserted_count = ROW_COUNT;
+	IF inserted_count = 0 THEN
+		RETURN false;
+	END IF;
+
+	-- Counted after the insert so reporting a note twice is free
+	PERFORM hit_rate_limit('report_ip', reporter_address);
+
+	SELECT count(DISTINCT coalesce(r.reporter_address, r.session_id)) INTO report_count
+	FROM reports r
+	WHERE r.note_id = p_note_id;
+
+	SELECT report_threshold INTO threshold FROM moderation_settings;
+
+	IF report_count >= threshold THEN
+		UPDATE notes SET is_hidden = true WHERE id = p_note_id;
+	END IF;
+
+	RETURN true;
+END;
+$$;